@@ -0,0 +1,85 @@
+// Fuelify service worker: keeps the app shell and station list available
+// offline. Price submissions are queued in IndexedDB by the app itself.
+const CACHE_NAME = 'fuelify-v2';
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+// Written by the build (see vite.config.ts); absent in dev
+const ASSET_MANIFEST = '/asset-manifest.json';
+
+// Hashed bundles for the current build, so the app starts offline without a
+// prior online visit having fetched every chunk
+async function buildAssets() {
+  try {
+    const response = await fetch(ASSET_MANIFEST, { cache: 'no-store' });
+    if (!response.ok) return [];
+    const { assets } = await response.json();
+    return Array.isArray(assets) ? assets : [];
+  } catch {
+    return [];
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), buildAssets()])
+      .then(([cache, assets]) => cache.addAll([...APP_SHELL, ...assets]))
+  );
+  self.skipWaiting();
+});
+
+// Drops caches from older versions and bundles the current build no longer ships
+async function pruneCaches() {
+  const keys = await caches.keys();
+  await Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key)));
+
+  const assets = await buildAssets();
+  if (!assets.length) return;
+  const current = new Set(assets);
+  const cache = await caches.open(CACHE_NAME);
+  for (const request of await cache.keys()) {
+    const { pathname } = new URL(request.url);
+    if (pathname.startsWith('/assets/') && !current.has(pathname)) await cache.delete(request);
+  }
+}
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(pruneCaches().then(() => self.clients.claim()));
+});
+
+// Network first, falling back to the last cached copy
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Hashed build assets never change, so serve them from cache once fetched
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/index.html'));
+  } else if (url.pathname === '/api/stations') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,6 +1,30 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Link, Navigate } from 'react-router-dom';
 import axios from 'axios';
+import type { components } from './api/schema';
+import { createApiClient } from './api/client';
+import {
+  queueAll,
+  queueDelete,
+  queuePut,
+  replayQueue,
+  type PriceSubmission,
+  type QueuedSubmission,
+} from './offlineQueue';
+import { MapContainer, TileLayer, CircleMarker, Popup } from 'react-leaflet';
+import type { LatLngBoundsExpression } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceDot
+} from 'recharts';
 import {
   Save,
   Database,
@@ -12,49 +36,145 @@ import {
   Table as TableIcon,
   Fuel,
   User,
-  Clock
+  Clock,
+  LogIn,
+  LogOut,
+  MapPin,
+  Plus,
+  Pencil,
+  Power,
+  History,
+  ArrowRight,
+  AlertTriangle,
+  Navigation,
+  Map as MapIcon,
+  Download,
+  Upload,
+  FileSpreadsheet,
+  Radio,
+  WifiOff,
+  CloudUpload,
+  Trash2,
+  Swords,
+  CalendarClock,
+  Bell,
+  Send,
+  DollarSign,
+  Building2,
+  FileText,
+  KeyRound,
+  Copy,
+  ClipboardCheck,
+  Ban
 } from 'lucide-react';
 
 // --- CONFIG ---
 const API_URL = 'https://fuelify.onrender.com';
+const TOKEN_KEY = 'fuelify_token';
+const ORG_KEY = 'fuelify_org';
+const SESSION_KEY = 'fuelify_session';
+// Tenants served from <slug>.fuelify.app pick their organization from the subdomain
+const ORG_BASE_DOMAIN = 'fuelify.app';
+// JSON calls checked against the generated schema; file downloads and the
+// CSV upload go through axios directly
+const api = createApiClient(API_URL);
+const FUEL_GRADES = ['regular', 'midgrade', 'premium', 'diesel'] as const;
+// Offline queue retry window after server errors
+const SYNC_RETRY_MIN_MS = 5_000;
+const SYNC_RETRY_MAX_MS = 5 * 60_000;
 
-// --- TYPES ---
-interface Station {
-  id: string;
-  name: string;
+// --- AUTH ---
+function setAuthToken(token: string | null) {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+    axios.defaults.headers.common.Authorization = `Bearer ${token}`;
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(SESSION_KEY);
+    delete axios.defaults.headers.common.Authorization;
+  }
 }
 
-interface PriceEntry {
-  time: string;
-  updatedBy: string;
-  prices: {
-    regular: number | null;
-    midgrade: number | null;
-    premium: number | null;
-    diesel: number | null;
-  };
+// The last signed-in user and organization, so staff can keep working offline
+function saveSession(user: AuthUser, org: Organization) {
+  localStorage.setItem(SESSION_KEY, JSON.stringify({ user, org }));
 }
 
-interface DateHistory {
-  [stationId: string]: PriceEntry[];
+function loadSession(): { user: AuthUser; org: Organization } | null {
+  try {
+    return JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null');
+  } catch {
+    return null;
+  }
 }
 
-interface AdminData {
-  stations: Station[];
-  history: {
-    [date: string]: DateHistory;
-  };
+// --- ORGANIZATION ---
+function subdomainOrg(): string | null {
+  const host = window.location.hostname;
+  return host.endsWith(`.${ORG_BASE_DOMAIN}`) ? host.slice(0, -(ORG_BASE_DOMAIN.length + 1)) : null;
+}
+
+// The subdomain wins; otherwise the organization last signed in to
+function resolveOrgSlug(): string | null {
+  return subdomainOrg() ?? localStorage.getItem(ORG_KEY);
+}
+
+// Every request names the organization so public pages show the right stations
+function setOrgSlug(slug: string | null) {
+  if (slug) {
+    localStorage.setItem(ORG_KEY, slug);
+    axios.defaults.headers.common['X-Org'] = slug;
+  } else {
+    localStorage.removeItem(ORG_KEY);
+    delete axios.defaults.headers.common['X-Org'];
+  }
 }
 
-interface ChartDataPoint {
+// Applied at load, before any component fetches
+setOrgSlug(resolveOrgSlug());
+
+// --- TYPES ---
+type FuelGrade = typeof FUEL_GRADES[number];
+
+// Shapes served by the API are generated from server/openapi.json (npm run generate:api)
+type Schemas = components['schemas'];
+type AuthUser = Schemas['AuthUser'];
+type Organization = Schemas['Organization'];
+type OrgSettings = Schemas['OrgSettings'];
+type Station = Schemas['Station'];
+type StationWithPrices = Schemas['StationWithPrices'];
+type PriceEntry = Schemas['PriceEntry'];
+type AdminData = Schemas['AdminData'];
+type PriceChange = Schemas['PriceChange'];
+type ChartDataPoint = Schemas['ChartDataPoint'];
+type Competitor = Schemas['Competitor'];
+type ComparisonPoint = Schemas['CompetitorComparison']['data'][number];
+type ScheduledChange = Schemas['ScheduledChange'];
+type OverdueStation = Schemas['OverdueStation'];
+type AlertEntry = Schemas['Alert'];
+type Delivery = Schemas['Delivery'];
+type MarginReport = Schemas['MarginReport'];
+type ImportRowError = Schemas['ImportRowError'];
+type ArchivedReport = Schemas['ArchivedReport'];
+type ReportSchedule = Schemas['ReportSchedule'];
+type ApiKey = Schemas['ApiKey'];
+type ApiRequestLog = Schemas['ApiRequestLog'];
+type PriceCorrection = Schemas['PriceCorrection'];
+
+interface PriceChangeEvent {
+  stationId: string;
   date: string;
-  regular: number | null;
-  midgrade: number | null;
-  premium: number | null;
-  diesel: number | null;
+  entry: PriceEntry;
 }
 
 // --- TOAST ---
+const OrgBrand = ({ org, className = '' }: { org: Organization | null; className?: string }) => (
+  <span className={`flex items-center gap-2 ${className}`}>
+    {org?.logoUrl && <img src={org.logoUrl} alt="" className="h-7 w-7 object-contain rounded" />}
+    {org?.name ?? 'Fuelify'}
+  </span>
+);
+
 const Toast = ({ msg, type }: { msg: string; type: 'success' | 'error' }) => (
   <div
     className={`fixed top-6 right-6 left-6 md:left-auto md:w-auto px-4 py-3 rounded-lg shadow-xl flex items-center gap-3 z-50 animate-in slide-in-from-top-2 ${
@@ -68,11 +188,389 @@ const Toast = ({ msg, type }: { msg: string; type: 'success' | 'error' }) => (
   </div>
 );
 
+// ================= STATION MAP (PUBLIC) =================
+const NO_PRICE_COLOR = '#94a3b8';
+
+// Green for the cheapest station, red for the most expensive
+function priceColor(price: number | null, min: number, max: number) {
+  if (!price) return NO_PRICE_COLOR;
+  const t = max > min ? (price - min) / (max - min) : 0;
+  return `hsl(${Math.round(120 * (1 - t))}, 70%, 42%)`;
+}
+
+function formatLastUpdated(value: string, timeZone?: string) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(timeZone && { timeZone, timeZoneName: 'short' })
+  });
+}
+
+function StationMapPage() {
+  const [stations, setStations] = useState<StationWithPrices[] | null>(null);
+  const [org, setOrg] = useState<Organization | null>(null);
+  const [grade, setGrade] = useState<FuelGrade>('regular');
+
+  useEffect(() => {
+    let mounted = true;
+    api.get('/api/org')
+      .then((res) => { if (mounted) setOrg(res.data); })
+      .catch((err) => console.error('Failed to load organization', err));
+    (async () => {
+      try {
+        const res = await api.get('/api/stations', { query: { upcoming: 'true' } });
+        if (mounted) setStations(res.data);
+      } catch (err) {
+        console.error('Failed to load stations', err);
+        if (mounted) setStations([]);
+      }
+    })();
+    return () => { mounted = false; };
+  }, []);
+
+  if (!stations) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <RefreshCw className="animate-spin text-slate-400" size={32} />
+      </div>
+    );
+  }
+
+  const pricedValues = stations.map((s) => s.prices[grade]).filter((p): p is number => p !== null);
+  const min = Math.min(...pricedValues);
+  const max = Math.max(...pricedValues);
+  const bounds: LatLngBoundsExpression | undefined = stations.length
+    ? stations.map((s) => [s.lat, s.lng] as [number, number])
+    : undefined;
+
+  return (
+    <div className="h-screen flex flex-col bg-slate-50">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-white border-b border-slate-200 z-20">
+        <h1 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          {org?.logoUrl ? <img src={org.logoUrl} alt="" className="h-7 w-7 object-contain rounded" /> : <MapIcon className="text-blue-600" size={22} />}
+          {org ? `${org.name} Prices Near You` : 'Fuel Prices Near You'}
+        </h1>
+        <div className="flex items-center gap-4">
+          <div className="flex bg-slate-100 p-1 rounded-xl">
+            {FUEL_GRADES.map((g) => (
+              <button
+                key={g}
+                onClick={() => setGrade(g)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium capitalize transition-all ${
+                  grade === g ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+                }`}
+              >
+                {g}
+              </button>
+            ))}
+          </div>
+          {pricedValues.length > 0 && (
+            <div className="hidden md:flex items-center gap-2 text-xs text-slate-500">
+              <span className="w-3 h-3 rounded-full" style={{ background: priceColor(min, min, max) }} /> ${min.toFixed(3)}
+              <span className="w-3 h-3 rounded-full ml-2" style={{ background: priceColor(max, min, max) }} /> ${max.toFixed(3)}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {stations.some((s) => s.stale) && (
+        <div className="flex items-center gap-2 text-sm text-amber-800 bg-amber-50 border-b border-amber-200 px-4 py-2 z-20">
+          <WifiOff size={16} className="shrink-0" /> Live prices are temporarily unavailable. Showing the last known prices.
+        </div>
+      )}
+
+      <div className="flex-1">
+        <MapContainer
+          bounds={bounds}
+          boundsOptions={{ padding: [40, 40] }}
+          center={bounds ? undefined : [40.4, -82.5]}
+          zoom={bounds ? undefined : 7}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          {stations.map((station) => {
+            const color = priceColor(station.prices[grade], min, max);
+            return (
+              <CircleMarker
+                key={station.id}
+                center={[station.lat, station.lng]}
+                radius={12}
+                pathOptions={{ color: '#ffffff', weight: 2, fillColor: color, fillOpacity: 0.9 }}
+              >
+                <Popup>
+                  <div className="min-w-[200px]">
+                    <div className="font-bold text-base text-slate-900">{station.name}</div>
+                    <div className="text-xs text-slate-500 mb-2">{station.address}</div>
+                    <table className="w-full text-sm mb-2">
+                      <tbody>
+                        {station.grades.map((g) => (
+                          <tr key={g} className={g === grade ? 'font-bold' : ''}>
+                            <td className="capitalize pr-4">{g}</td>
+                            <td className="text-right font-mono">
+                              {station.unavailableGrades.includes(g)
+                                ? <span className="text-xs text-red-600 font-sans">Out of stock</span>
+                                : station.prices[g] !== null ? `$${station.prices[g].toFixed(3)}` : '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="text-xs text-slate-500 flex items-center gap-1 mb-2">
+                      <Clock size={12} /> Updated {formatLastUpdated(station.lastUpdated, station.timeZone)}
+                    </div>
+                    {station.upcoming?.map((change) => (
+                      <div key={change.id} className="text-xs text-blue-700 flex items-start gap-1 mb-2">
+                        <CalendarClock size={12} className="mt-0.5 shrink-0" />
+                        <span>
+                          From {formatLastUpdated(change.effectiveAt, station.timeZone)}:{' '}
+                          {Object.entries(change.prices).map(([g, p]) => `${g} $${p.toFixed(3)}`).join(', ')}
+                        </span>
+                      </div>
+                    ))}
+                    <a
+                      href={`https://www.google.com/maps/dir/?api=1&destination=${station.lat},${station.lng}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-sm font-medium"
+                    >
+                      <Navigation size={14} /> Directions
+                    </a>
+                  </div>
+                </Popup>
+              </CircleMarker>
+            );
+          })}
+        </MapContainer>
+      </div>
+    </div>
+  );
+}
+
+// ================= LOGIN PAGE =================
+function LoginPage({ onLogin }: { onLogin: (user: AuthUser, org: Organization) => void }) {
+  // A subdomain fixes the organization; otherwise it is typed in (and remembered)
+  const fixedOrg = subdomainOrg();
+  const [orgSlug, setOrgSlugInput] = useState(() => resolveOrgSlug() ?? '');
+  const [org, setOrg] = useState<Organization | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Branding for the organization being signed in to
+  useEffect(() => {
+    const slug = orgSlug.trim().toLowerCase();
+    const timer = setTimeout(() => {
+      api.get('/api/org', { query: slug ? { org: slug } : {} })
+        .then((res) => setOrg(res.data))
+        .catch(() => setOrg(null));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [orgSlug]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return setError('Username and password are required');
+
+    setLoading(true);
+    setError('');
+    try {
+      const slug = orgSlug.trim().toLowerCase();
+      const res = await api.post('/api/auth/login', { username, password, ...(slug && { org: slug }) });
+      setAuthToken(res.data.token);
+      setOrgSlug(res.data.org.slug);
+      onLogin(res.data.user, res.data.org);
+    } catch (err) {
+      console.error(err);
+      setError(axios.isAxiosError(err) && err.response?.data?.error
+        ? err.response.data.error
+        : 'Login failed');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white p-6 md:p-8 rounded-2xl shadow-sm border border-slate-200">
+        <h1 className="text-2xl md:text-3xl font-bold mb-6 md:mb-8 text-slate-800 flex justify-center items-center gap-2">
+          <OrgBrand org={org} /> Sign In
+        </h1>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {!fixedOrg && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Organization</label>
+              <input
+                autoComplete="organization"
+                placeholder="e.g. fuelify"
+                className="w-full p-3 md:p-4 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base"
+                value={orgSlug}
+                onChange={(e) => setOrgSlugInput(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Username</label>
+            <input
+              autoComplete="username"
+              className="w-full p-3 md:p-4 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Password</label>
+            <input
+              type="password"
+              autoComplete="current-password"
+              className="w-full p-3 md:p-4 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-red-600 bg-red-50 p-3 rounded-lg">
+              <AlertCircle size={16} /> {error}
+            </div>
+          )}
+
+          <button
+            disabled={loading}
+            className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold flex justify-center gap-2 items-center hover:bg-blue-700 transition-colors disabled:opacity-50 mt-4 shadow-lg shadow-blue-200 active:scale-[0.98]"
+          >
+            {loading ? <RefreshCw size={20} className="animate-spin" /> : <LogIn size={20} />}
+            {loading ? 'Signing in...' : 'Sign In'}
+          </button>
+        </form>
+
+        <Link to="/map" className="mt-6 flex items-center justify-center gap-2 text-sm text-slate-500 hover:text-blue-600">
+          <MapIcon size={16} /> View station prices map
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+// ================= COMPETITOR PRICES (STAFF) =================
+type CompetitorForm = Partial<Record<FuelGrade, string>>;
+
+function CompetitorPricesSection({ stationId }: { stationId: string }) {
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [forms, setForms] = useState<Record<string, CompetitorForm>>({});
+  const [errors, setErrors] = useState<Record<string, Record<string, string>>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [savedId, setSavedId] = useState<string | null>(null);
+
+  const fetchCompetitors = useCallback(async () => {
+    try {
+      const res = await api.get('/api/competitors', { query: { stationId } });
+      setCompetitors(res.data);
+    } catch (err) {
+      console.error('Failed to load competitors', err);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    (async () => { await fetchCompetitors(); })();
+  }, [fetchCompetitors]);
+
+  const handleSave = async (competitor: Competitor) => {
+    setSavingId(competitor.id);
+    setErrors((e) => ({ ...e, [competitor.id]: {} }));
+    try {
+      await api.post('/api/competitor-prices', {
+        competitorId: competitor.id,
+        prices: forms[competitor.id] ?? {}
+      });
+      setForms((f) => ({ ...f, [competitor.id]: {} }));
+      setSavedId(competitor.id);
+      setTimeout(() => setSavedId(null), 2000);
+      await fetchCompetitors();
+    } catch (err) {
+      console.error(err);
+      const fieldErrors = axios.isAxiosError(err) ? err.response?.data?.fieldErrors : null;
+      setErrors((e) => ({ ...e, [competitor.id]: fieldErrors ?? { prices: 'Failed to save' } }));
+    }
+    setSavingId(null);
+  };
+
+  if (!competitors.length) return null;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-slate-200">
+      <h2 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+        <Swords size={16} /> Competitor Prices
+      </h2>
+      <div className="space-y-4">
+        {competitors.map((competitor) => (
+          <div key={competitor.id} className="p-4 rounded-xl border border-slate-200 bg-slate-50">
+            <div className="flex justify-between gap-2 mb-1">
+              <span className="font-medium text-slate-800 text-sm">{competitor.name}</span>
+              {competitor.distance != null && (
+                <span className="text-xs text-slate-500">{competitor.distance.toFixed(1)} mi</span>
+              )}
+            </div>
+            {competitor.latest && (
+              <div className="text-xs text-slate-500 mb-3">
+                Last: {FUEL_GRADES.filter((g) => competitor.latest?.prices[g]).map((g) => `${g} $${competitor.latest?.prices[g]?.toFixed(3)}`).join(' · ')}
+                {' '}({new Date(competitor.latest.observedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })})
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-2">
+              {FUEL_GRADES.map((grade) => (
+                <div key={grade}>
+                  <input
+                    type="number"
+                    step="0.001"
+                    inputMode="decimal"
+                    placeholder={grade}
+                    className={`w-full p-2 border rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500 ${
+                      errors[competitor.id]?.[grade] ? 'border-red-400 bg-red-50' : 'border-slate-300'
+                    }`}
+                    value={forms[competitor.id]?.[grade] ?? ''}
+                    onChange={(e) => setForms((f) => ({
+                      ...f,
+                      [competitor.id]: { ...f[competitor.id], [grade]: e.target.value }
+                    }))}
+                  />
+                  {errors[competitor.id]?.[grade] && (
+                    <p className="text-xs text-red-600 mt-1">{errors[competitor.id][grade]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            {errors[competitor.id]?.prices && <p className="text-xs text-red-600 mt-2">{errors[competitor.id].prices}</p>}
+            <button
+              type="button"
+              onClick={() => handleSave(competitor)}
+              disabled={savingId === competitor.id}
+              className="w-full mt-3 bg-slate-800 text-white py-2 rounded-lg text-xs font-bold hover:bg-slate-900 disabled:opacity-50 flex justify-center items-center gap-2"
+            >
+              {savingId === competitor.id
+                ? <RefreshCw size={14} className="animate-spin" />
+                : savedId === competitor.id ? <CheckCircle2 size={14} /> : <Save size={14} />}
+              {savedId === competitor.id ? 'Saved' : 'Save Competitor Prices'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // ================= STAFF PAGE =================
-function StaffPage() {
+function StaffPage({ user, org, onLogout }: { user: AuthUser; org: Organization; onLogout: () => void }) {
   const [stations, setStations] = useState<Station[]>([]);
   const [stationId, setStationId] = useState('');
-  const [staffName, setStaffName] = useState('');
   const [loading, setLoading] = useState(false);
   const [notification, setNotification] = useState<{
     msg: string;
@@ -85,186 +583,2663 @@ function StaffPage() {
     premium: '',
     diesel: ''
   });
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Guardrail warnings from the server; non-empty means the next submit confirms
+  const [warnings, setWarnings] = useState<Record<string, string[]>>({});
+  const needsConfirm = Object.keys(warnings).length > 0;
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [queue, setQueue] = useState<QueuedSubmission[]>([]);
+  const syncingRef = React.useRef(false);
+  const backoffRef = React.useRef(0);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  // The session expired while syncing; staff must sign in again
+  const [syncBlocked, setSyncBlocked] = useState(false);
 
   useEffect(() => {
     let mounted = true;
     (async () => {
       try {
-        const res = await axios.get(`${API_URL}/api/stations`);
-        if (mounted) setStations(res.data);
+        const res = await api.get('/api/stations');
+        const allowed = (res.data as Station[]).filter(
+          (s) => user.role === 'admin' || user.stationIds.includes(s.id)
+        );
+        if (mounted) setStations(allowed);
       } catch (err) {
         console.error('Failed to load stations', err);
       }
     })();
     return () => { mounted = false; };
-  }, []);
+  }, [user]);
 
-  const showNotify = (msg: string, type: 'success' | 'error') => {
+  const showNotify = useCallback((msg: string, type: 'success' | 'error') => {
     setNotification({ msg, type });
     setTimeout(() => setNotification(null), 3000);
+  }, []);
+
+  // Replays the offline queue. An expired session pauses syncing until staff
+  // sign in again, and server errors retry with a growing delay instead of
+  // hammering the API.
+  const flushQueue = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    let synced = 0;
+
+    try {
+      const result = await replayQueue(await queueAll(), user.id, (submission) => api.post('/api/update-prices', submission));
+      synced = result.synced;
+      if (synced) {
+        backoffRef.current = 0;
+        setSyncBlocked(false);
+      }
+      if (result.stop === 'signed-out') {
+        setSyncBlocked(true);
+      } else if (result.stop === 'server-error') {
+        backoffRef.current = Math.min(Math.max(backoffRef.current * 2, SYNC_RETRY_MIN_MS), SYNC_RETRY_MAX_MS);
+        setRetryAt(Date.now() + backoffRef.current);
+      }
+    } catch (err) {
+      console.error('Offline queue sync failed', err);
+    } finally {
+      syncingRef.current = false;
+    }
+
+    setQueue(await queueAll());
+    if (synced) showNotify(`Synced ${synced} offline submission${synced > 1 ? 's' : ''}`, 'success');
+  }, [user.id, showNotify]);
+
+  // Scheduled retry after a server error
+  useEffect(() => {
+    if (retryAt === null) return;
+    const timer = setTimeout(() => {
+      setRetryAt(null);
+      flushQueue();
+    }, Math.max(retryAt - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [retryAt, flushQueue]);
+
+  useEffect(() => {
+    (async () => {
+      setQueue(await queueAll());
+      await flushQueue();
+    })();
+
+    const handleOnline = () => { setOnline(true); flushQueue(); };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flushQueue]);
+
+  const confirmQueued = async (item: QueuedSubmission) => {
+    await queuePut({ ...item, status: 'queued', confirm: true, warnings: undefined });
+    await flushQueue();
+  };
+
+  const discardQueued = async (item: QueuedSubmission) => {
+    await queueDelete(item.submissionId);
+    setQueue(await queueAll());
+  };
+
+  // Submissions other staff captured on this device wait for them to sign in
+  const ownQueue = queue.filter((item) => item.userId === user.id);
+  const othersQueued = queue.length - ownQueue.length;
+
+  const handleSignOut = () => {
+    const unsent = ownQueue.length;
+    if (unsent && !window.confirm(`You have ${unsent} unsent submission${unsent > 1 ? 's' : ''}. They stay on this device and sync the next time you sign in. Sign out?`)) return;
+    onLogout();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (['e', 'E', '+', '-'].includes(e.key)) {
+      e.preventDefault();
+    }
+  };
+
+  const selectedStation = stations.find((s) => s.id === stationId);
+  const selectedGrades = selectedStation?.grades ?? [...FUEL_GRADES];
+  const outOfStock = selectedStation?.unavailableGrades ?? [];
+
+  const toggleAvailability = async (grade: FuelGrade) => {
+    try {
+      const res = await api.post('/api/stations/{id}/availability', {
+        grade,
+        available: outOfStock.includes(grade)
+      }, { path: { id: stationId } });
+      setStations((list) => list.map((s) => (s.id === res.data.id ? res.data : s)));
+      setFieldErrors((errs) => {
+        const next = { ...errs };
+        delete next[grade];
+        return next;
+      });
+    } catch (err) {
+      console.error(err);
+      showNotify('Failed to update stock status', 'error');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!stationId) return showNotify('Please select a store first', 'error');
+
+    const priceKeys = selectedGrades.filter((grade) => !outOfStock.includes(grade));
+    const allPricesEntered = priceKeys.every(key => 
+      prices[key] !== '' && Number(prices[key]) > 0
+    );
+
+    if (!allPricesEntered) {
+      return showNotify('Please enter a price for every grade', 'error');
+    }
+
+    setLoading(true);
+    setFieldErrors({});
+
+    const submission: PriceSubmission = {
+      submissionId: crypto.randomUUID(),
+      capturedAt: new Date().toISOString(),
+      stationId,
+      prices: Object.fromEntries(priceKeys.map((grade) => [grade, prices[grade]])),
+      confirm: needsConfirm
+    };
+
+    const enqueue = async () => {
+      await queuePut({
+        ...submission,
+        userId: user.id,
+        stationName: stations.find((s) => s.id === stationId)?.name ?? stationId,
+        status: 'queued'
+      });
+      setQueue(await queueAll());
+      showNotify('Saved offline. Prices will sync when you reconnect.', 'success');
+      setPrices({ regular: '', midgrade: '', premium: '', diesel: '' });
+      setWarnings({});
+    };
+
+    try {
+      if (!navigator.onLine) {
+        await enqueue();
+      } else {
+        await api.post('/api/update-prices', submission);
+        showNotify('All Prices Updated Successfully!', 'success');
+        setPrices({ regular: '', midgrade: '', premium: '', diesel: '' });
+        setWarnings({});
+      }
+    } catch (err) {
+      console.error(err);
+      if (axios.isAxiosError(err) && !err.response) {
+        // No response at all: treat like offline and keep the entry
+        await enqueue();
+      } else if (axios.isAxiosError(err) && err.response?.status === 422) {
+        setFieldErrors(err.response.data.fieldErrors || {});
+        showNotify('Please fix the highlighted prices', 'error');
+      } else if (axios.isAxiosError(err) && err.response?.status === 409) {
+        setWarnings(err.response.data.warnings || {});
+        showNotify('Some prices look unusual. Check and confirm.', 'error');
+      } else {
+        showNotify('Failed to submit prices', 'error');
+      }
+    }
+
+    setLoading(false);
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (['e', 'E', '+', '-'].includes(e.key)) {
-      e.preventDefault();
-    }
-  };
+  return (
+    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
+      {notification && <Toast {...notification} />}
+
+      <div className="max-w-md w-full bg-white p-6 md:p-8 rounded-2xl shadow-sm border border-slate-200">
+        <OrgBrand org={org} className="justify-center text-sm font-semibold text-slate-500 mb-1" />
+        <h1 className="text-2xl md:text-3xl font-bold mb-4 text-center text-slate-800">Set Fuel Prices</h1>
+
+        <div className="flex items-center justify-between gap-3 mb-6 md:mb-8 text-sm text-slate-600 bg-slate-100 p-3 rounded-xl">
+          <span className="flex items-center gap-2">
+            <User size={16} /> <span className="font-medium text-slate-800">{user.name}</span>
+          </span>
+          <div className="flex items-center gap-3">
+            {user.role === 'admin' && (
+              <Link to="/admin-view" className="text-blue-600 font-medium hover:underline">Admin</Link>
+            )}
+            <button type="button" onClick={handleSignOut} className="flex items-center gap-1 text-slate-500 hover:text-slate-800">
+              <LogOut size={16} /> Sign out
+            </button>
+          </div>
+        </div>
+
+        {!online && (
+          <div className="flex items-center gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 p-3 rounded-xl mb-5">
+            <WifiOff size={16} className="shrink-0" /> You're offline. Submissions will be saved and sent later.
+          </div>
+        )}
+
+        {syncBlocked && ownQueue.length > 0 && (
+          <div className="flex items-center gap-2 text-sm text-red-800 bg-red-50 border border-red-200 p-3 rounded-xl mb-5">
+            <AlertTriangle size={16} className="shrink-0" />
+            <span className="flex-1">Your session expired, so pending submissions can't sync. Sign in again to send them.</span>
+            <button type="button" onClick={onLogout} className="font-bold hover:underline">Sign in</button>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Select Location</label>
+            <select
+              className="w-full p-3 md:p-4 border border-slate-300 rounded-xl bg-white focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base"
+              value={stationId}
+              onChange={(e) => { setStationId(e.target.value); setFieldErrors({}); setWarnings({}); }}
+            >
+              <option value="">Choose Store...</option>
+              {stations.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+            {fieldErrors.stationId && <p className="text-sm text-red-600 mt-1">{fieldErrors.stationId}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4">
+            {selectedGrades.map((type) => (
+              <div key={type}>
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-sm font-medium text-slate-700 capitalize">{type} Price</label>
+                  {stationId && online && (
+                    <button
+                      type="button"
+                      onClick={() => toggleAvailability(type)}
+                      className={`text-xs font-medium px-2 py-0.5 rounded-full border ${
+                        outOfStock.includes(type)
+                          ? 'bg-red-50 text-red-700 border-red-200'
+                          : 'text-slate-500 border-slate-200 hover:bg-slate-100'
+                      }`}
+                    >
+                      {outOfStock.includes(type) ? 'Out of stock · mark available' : 'Mark out of stock'}
+                    </button>
+                  )}
+                </div>
+                <div className="relative">
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 font-bold">$</span>
+                  <input
+                    type="number"
+                    step="0.001"
+                    inputMode="decimal"
+                    onKeyDown={handleKeyDown}
+                    placeholder={outOfStock.includes(type) ? 'Out of stock' : `0.000`}
+                    disabled={outOfStock.includes(type)}
+                    className={`w-full p-3 md:p-4 pl-8 border rounded-xl disabled:bg-slate-100 focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base ${
+                      fieldErrors[type]
+                        ? 'border-red-400 bg-red-50'
+                        : warnings[type] ? 'border-amber-400 bg-amber-50' : 'border-slate-300'
+                    }`}
+                    value={prices[type]}
+                    onChange={(e) => {
+                      setPrices((p) => ({ ...p, [type]: e.target.value }));
+                      setFieldErrors((errs) => {
+                        const next = { ...errs };
+                        delete next[type];
+                        return next;
+                      });
+                      // Any edit invalidates the server's checks; re-validate on submit
+                      setWarnings({});
+                    }}
+                  />
+                </div>
+                {fieldErrors[type] && <p className="text-sm text-red-600 mt-1">{fieldErrors[type]}</p>}
+                {warnings[type]?.map((w) => (
+                  <p key={w} className="text-sm text-amber-700 mt-1 flex items-center gap-1">
+                    <AlertTriangle size={14} className="shrink-0" /> {w}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          <button
+            disabled={loading}
+            className={`w-full text-white py-4 rounded-xl font-bold flex justify-center gap-2 items-center transition-colors disabled:opacity-50 mt-4 shadow-lg active:scale-[0.98] ${
+              needsConfirm
+                ? 'bg-amber-600 hover:bg-amber-700 shadow-amber-200'
+                : 'bg-blue-600 hover:bg-blue-700 shadow-blue-200'
+            }`}
+          >
+            {loading
+              ? <RefreshCw size={20} className="animate-spin" />
+              : needsConfirm ? <AlertTriangle size={20} /> : <Save size={20} />}
+            {loading ? 'Updating...' : needsConfirm ? 'Confirm & Submit Anyway' : 'Submit Prices'}
+          </button>
+        </form>
+
+        {stationId && online && <CompetitorPricesSection key={stationId} stationId={stationId} />}
+
+        {queue.length > 0 && (
+          <div className="mt-8 pt-6 border-t border-slate-200">
+            <h2 className="text-sm font-bold text-slate-700 mb-3 flex items-center gap-2">
+              <CloudUpload size={16} /> Pending Submissions ({ownQueue.length})
+            </h2>
+            {othersQueued > 0 && (
+              <p className="text-xs text-slate-500 mb-3">
+                {othersQueued} submission{othersQueued > 1 ? 's' : ''} captured by other staff on this device will sync when they sign in.
+              </p>
+            )}
+            <div className="space-y-3">
+              {ownQueue.map((item) => (
+                <div key={item.submissionId} className="p-3 rounded-xl border border-slate-200 bg-slate-50 text-sm">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium text-slate-800">{item.stationName}</span>
+                    <span className="text-xs text-slate-500">
+                      {new Date(item.capturedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-500 font-mono mt-1">
+                    {Object.entries(item.prices).map(([g, p]) => `${g} $${p}`).join(' · ')}
+                  </div>
+                  {item.status === 'queued' && (
+                    <div className="text-xs text-slate-500 mt-2">
+                      {retryAt ? 'Server unavailable, retrying shortly' : 'Waiting to sync'}
+                    </div>
+                  )}
+                  {item.status === 'needs-confirm' && Object.entries(item.warnings ?? {}).map(([grade, msgs]) => (
+                    msgs.map((m) => (
+                      <p key={`${grade}-${m}`} className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                        <AlertTriangle size={12} className="shrink-0" /> {grade}: {m}
+                      </p>
+                    ))
+                  ))}
+                  {item.status === 'rejected' && Object.entries(item.fieldErrors ?? {}).map(([field, m]) => (
+                    <p key={field} className="text-xs text-red-600 mt-1">{field}: {m}</p>
+                  ))}
+                  {item.status !== 'queued' && (
+                    <div className="flex gap-2 mt-3">
+                      {item.status === 'needs-confirm' && (
+                        <button
+                          type="button"
+                          onClick={() => confirmQueued(item)}
+                          className="flex-1 bg-amber-600 text-white py-2 rounded-lg text-xs font-bold hover:bg-amber-700"
+                        >
+                          Confirm & Send
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => discardQueued(item)}
+                        className="flex items-center justify-center gap-1 flex-1 bg-white text-slate-600 py-2 rounded-lg text-xs font-medium border border-slate-300 hover:bg-slate-100"
+                      >
+                        <Trash2 size={12} /> Discard
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ================= STATIONS PANEL =================
+const EMPTY_STATION_FORM = {
+  name: '',
+  brand: '',
+  address: '',
+  lat: '',
+  lng: '',
+  grades: [] as FuelGrade[],
+  priceDeadline: '',
+  timeZone: ''
+};
+
+// Suggestions only; any IANA zone is accepted
+const COMMON_TIME_ZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu'
+];
+
+function StationsPanel({ org, onChange }: { org: Organization; onChange: () => void }) {
+  // New stations default to every grade the organization offers
+  const emptyForm = { ...EMPTY_STATION_FORM, grades: org.grades };
+  const [stations, setStations] = useState<Station[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchStations = useCallback(async () => {
+    try {
+      const res = await api.get('/api/admin/stations');
+      setStations(res.data);
+    } catch (err) {
+      console.error('Failed to load stations', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => { await fetchStations(); })();
+  }, [fetchStations]);
+
+  const startEdit = (station: Station) => {
+    setEditingId(station.id);
+    setError('');
+    setForm({
+      name: station.name,
+      brand: station.brand ?? '',
+      address: station.address,
+      lat: String(station.lat),
+      lng: String(station.lng),
+      grades: station.grades,
+      priceDeadline: station.priceDeadline ?? '',
+      timeZone: station.timeZone
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setError('');
+    setForm(emptyForm);
+  };
+
+  const toggleGrade = (grade: FuelGrade) => {
+    setForm((f) => ({
+      ...f,
+      grades: f.grades.includes(grade)
+        ? f.grades.filter((g) => g !== grade)
+        : org.grades.filter((g) => g === grade || f.grades.includes(g))
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      if (editingId) {
+        await api.patch('/api/admin/stations/{id}', form, { path: { id: editingId } });
+      } else {
+        await api.post('/api/admin/stations', form);
+      }
+      resetForm();
+      await fetchStations();
+      onChange();
+    } catch (err) {
+      console.error(err);
+      setError(axios.isAxiosError(err) && err.response?.data?.error
+        ? err.response.data.error
+        : 'Failed to save station');
+    }
+    setSaving(false);
+  };
+
+  const toggleActive = async (station: Station) => {
+    try {
+      if (station.active) {
+        await api.delete('/api/admin/stations/{id}', { path: { id: station.id } });
+      } else {
+        await api.patch('/api/admin/stations/{id}', { active: true }, { path: { id: station.id } });
+      }
+      await fetchStations();
+      onChange();
+    } catch (err) {
+      console.error('Failed to update station', err);
+    }
+  };
+
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+        {stations.map((station) => (
+          <div key={station.id} className={`p-5 flex items-start justify-between gap-4 ${station.active ? '' : 'opacity-50'}`}>
+            <div>
+              <h3 className="text-white font-bold flex items-center gap-2">
+                <MapPin size={16} className="text-blue-500" /> {station.name}
+                {station.brand && (
+                  <span className="text-[10px] uppercase bg-slate-900 text-slate-400 px-2 py-0.5 rounded border border-slate-600">{station.brand}</span>
+                )}
+                {!station.active && <span className="text-xs text-red-400">Inactive</span>}
+              </h3>
+              <div className="text-sm text-slate-400 mt-1">{station.address}</div>
+              <div className="text-xs text-slate-500 mt-1 font-mono">
+                #{station.id} · {station.lat.toFixed(5)}, {station.lng.toFixed(5)} · {station.grades.join(', ')}
+                {' · '}{station.timeZone}
+                {station.priceDeadline && ` · prices due ${station.priceDeadline}`}
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => startEdit(station)} title="Edit" className="p-2 bg-slate-900 text-slate-300 rounded-lg hover:bg-slate-700 border border-slate-700">
+                <Pencil size={16} />
+              </button>
+              <button
+                onClick={() => toggleActive(station)}
+                title={station.active ? 'Deactivate' : 'Reactivate'}
+                className={`p-2 bg-slate-900 rounded-lg hover:bg-slate-700 border border-slate-700 ${station.active ? 'text-red-400' : 'text-emerald-400'}`}
+              >
+                <Power size={16} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleSave} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3 h-fit">
+        <h2 className="text-white font-bold flex items-center gap-2 mb-2">
+          {editingId ? <Pencil size={18} /> : <Plus size={18} />}
+          {editingId ? `Edit Station #${editingId}` : 'Add Station'}
+        </h2>
+        <input className={inputClass} placeholder="Name" value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+        <input className={inputClass} placeholder="Brand (optional)" value={form.brand} onChange={(e) => setForm((f) => ({ ...f, brand: e.target.value }))} />
+        <input className={inputClass} placeholder="Address" value={form.address} onChange={(e) => setForm((f) => ({ ...f, address: e.target.value }))} />
+        <div className="grid grid-cols-2 gap-3">
+          <input className={inputClass} placeholder="Latitude" inputMode="decimal" value={form.lat} onChange={(e) => setForm((f) => ({ ...f, lat: e.target.value }))} />
+          <input className={inputClass} placeholder="Longitude" inputMode="decimal" value={form.lng} onChange={(e) => setForm((f) => ({ ...f, lng: e.target.value }))} />
+        </div>
+        <input
+          className={inputClass}
+          placeholder="Time zone (e.g. America/New_York)"
+          list="station-time-zones"
+          value={form.timeZone}
+          onChange={(e) => setForm((f) => ({ ...f, timeZone: e.target.value }))}
+        />
+        <datalist id="station-time-zones">
+          {COMMON_TIME_ZONES.map((tz) => <option key={tz} value={tz} />)}
+        </datalist>
+        <label className="block text-xs text-slate-400">
+          Price deadline (blank for the default)
+          <input type="time" className={`${inputClass} mt-1`} value={form.priceDeadline} onChange={(e) => setForm((f) => ({ ...f, priceDeadline: e.target.value }))} />
+        </label>
+        <div className="flex flex-wrap gap-3 text-sm text-slate-300">
+          {org.grades.map((grade) => (
+            <label key={grade} className="flex items-center gap-1.5 capitalize cursor-pointer">
+              <input type="checkbox" checked={form.grades.includes(grade)} onChange={() => toggleGrade(grade)} />
+              {grade}
+            </label>
+          ))}
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        <div className="flex gap-3 pt-2">
+          <button disabled={saving} className="flex-1 bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 disabled:opacity-50 flex justify-center items-center gap-2">
+            {saving ? <RefreshCw size={16} className="animate-spin" /> : <Save size={16} />} Save
+          </button>
+          {editingId && (
+            <button type="button" onClick={resetForm} className="px-4 py-2.5 bg-slate-900 text-slate-300 rounded-lg border border-slate-700 hover:bg-slate-700">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// ================= ORGANIZATION SETTINGS =================
+function OrgSettingsPanel({ onSaved }: { onSaved: (org: Organization) => void }) {
+  const [form, setForm] = useState<OrgSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    api.get('/api/admin/org')
+      .then((res) => setForm(res.data))
+      .catch((err) => console.error('Failed to load organization settings', err));
+  }, []);
+
+  if (!form) return null;
+
+  const toggleGrade = (grade: FuelGrade) => {
+    setForm((f) => f && ({
+      ...f,
+      grades: f.grades.includes(grade)
+        ? f.grades.filter((g) => g !== grade)
+        : FUEL_GRADES.filter((g) => g === grade || f.grades.includes(g))
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    setSaved(false);
+    try {
+      const res = await api.patch('/api/admin/org', {
+        name: form.name,
+        logoUrl: form.logoUrl ?? '',
+        grades: form.grades,
+        alertEmailTo: form.alertEmailTo ?? '',
+        alertWebhookUrl: form.alertWebhookUrl ?? '',
+        requireCorrectionApproval: form.requireCorrectionApproval,
+        timeZone: form.timeZone
+      });
+      setForm(res.data);
+      setSaved(true);
+      onSaved(res.data);
+    } catch (err) {
+      console.error(err);
+      setError(axios.isAxiosError(err) && err.response?.data?.error
+        ? err.response.data.error
+        : 'Failed to save settings');
+    }
+    setSaving(false);
+  };
+
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <form onSubmit={handleSave} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3">
+      <h2 className="text-white font-bold flex items-center gap-2 mb-2">
+        <Building2 size={18} /> Organization
+        <span className="text-xs font-mono font-normal text-slate-500">{form.slug}</span>
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input className={inputClass} placeholder="Brand name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        <input className={inputClass} placeholder="Logo URL (optional)" value={form.logoUrl ?? ''} onChange={(e) => setForm({ ...form, logoUrl: e.target.value })} />
+        <input className={inputClass} placeholder="Alert email (optional)" value={form.alertEmailTo ?? ''} onChange={(e) => setForm({ ...form, alertEmailTo: e.target.value })} />
+        <input className={inputClass} placeholder="Alert webhook URL (optional)" value={form.alertWebhookUrl ?? ''} onChange={(e) => setForm({ ...form, alertWebhookUrl: e.target.value })} />
+        <input
+          className={inputClass}
+          placeholder="Report time zone (e.g. America/New_York)"
+          title="Weekly and monthly reports follow this zone's calendar"
+          list="org-time-zones"
+          value={form.timeZone}
+          onChange={(e) => setForm({ ...form, timeZone: e.target.value })}
+        />
+        <datalist id="org-time-zones">
+          {COMMON_TIME_ZONES.map((tz) => <option key={tz} value={tz} />)}
+        </datalist>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+        <span className="text-slate-400">Grades offered:</span>
+        {FUEL_GRADES.map((grade) => (
+          <label key={grade} className="flex items-center gap-1.5 capitalize cursor-pointer">
+            <input type="checkbox" checked={form.grades.includes(grade)} onChange={() => toggleGrade(grade)} />
+            {grade}
+          </label>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={form.requireCorrectionApproval}
+          onChange={(e) => setForm({ ...form, requireCorrectionApproval: e.target.checked })}
+        />
+        Price corrections need a second admin's approval
+      </label>
+      {error && <div className="text-sm text-red-400">{error}</div>}
+      <div className="flex items-center gap-3">
+        <button disabled={saving} className="bg-blue-600 text-white px-5 py-2.5 rounded-lg font-bold hover:bg-blue-500 disabled:opacity-50 flex items-center gap-2">
+          {saving ? <RefreshCw size={16} className="animate-spin" /> : <Save size={16} />} Save
+        </button>
+        {saved && <span className="text-sm text-emerald-400 flex items-center gap-1"><CheckCircle2 size={14} /> Saved</span>}
+      </div>
+    </form>
+  );
+}
+
+// ================= PRICE CORRECTIONS =================
+const CORRECTION_STATUS_BADGE: Record<PriceCorrection['status'], string> = {
+  pending: 'text-amber-400 border-amber-700',
+  applied: 'text-emerald-400 border-emerald-700',
+  rejected: 'text-slate-400 border-slate-600'
+};
+
+const formatPrice = (price: number | null | undefined) => (typeof price === 'number' ? `$${price.toFixed(3)}` : '-');
+
+function CorrectionForm({ station, date, entry, onClose, onSaved }: {
+  station: Station;
+  date: string;
+  entry: PriceEntry;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const grades = FUEL_GRADES.filter((g) => station.grades.includes(g) || entry.prices[g] !== null);
+  const [prices, setPrices] = useState<Partial<Record<FuelGrade, string>>>(() =>
+    Object.fromEntries(grades.map((g) => [g, entry.prices[g]?.toFixed(3) ?? '']))
+  );
+  const [reason, setReason] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState<'edit' | 'void' | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const submit = async (action: 'edit' | 'void') => {
+    if (action === 'void' && !window.confirm(`Void ${station.name}'s entry for ${date}? It will be left out of prices, charts and reports.`)) return;
+    setSaving(action);
+    setError('');
+    setFieldErrors({});
+    try {
+      // Only send grades that actually changed
+      const changed = Object.fromEntries(
+        grades.filter((g) => prices[g] && Number(prices[g]) !== entry.prices[g]).map((g) => [g, prices[g]])
+      );
+      const res = await api.post('/api/admin/corrections', {
+        stationId: station.id,
+        date,
+        action,
+        prices: action === 'edit' ? changed : undefined,
+        reason
+      });
+      onSaved();
+      if (res.data.status === 'pending') setPending(true);
+      else onClose();
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.fieldErrors) {
+        setFieldErrors(err.response.data.fieldErrors);
+      } else {
+        setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Failed to save correction');
+      }
+    }
+    setSaving(null);
+  };
+
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+  const formError = fieldErrors.prices || fieldErrors.date || fieldErrors.action || fieldErrors.stationId;
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-white font-bold flex items-center gap-2">
+          <Pencil size={18} /> Correct {station.name}
+          <span className="text-xs font-normal text-slate-400">{date}</span>
+        </h2>
+
+        {pending ? (
+          <>
+            <div className="text-sm text-amber-300 bg-amber-500/10 p-3 rounded-lg">
+              Correction submitted. It takes effect once another admin approves it under Corrections.
+            </div>
+            <button onClick={onClose} className="w-full bg-slate-900 text-slate-200 py-2.5 rounded-lg font-bold border border-slate-700 hover:bg-slate-700">
+              Close
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {grades.map((grade) => (
+                <label key={grade} className="text-xs text-slate-400 capitalize space-y-1">
+                  <span>{grade} <span className="normal-case text-slate-500">(was {formatPrice(entry.prices[grade])})</span></span>
+                  <input
+                    className={`${inputClass} font-mono ${fieldErrors[grade] ? 'border-red-500' : ''}`}
+                    inputMode="decimal"
+                    value={prices[grade] ?? ''}
+                    onChange={(e) => setPrices((p) => ({ ...p, [grade]: e.target.value }))}
+                  />
+                  {fieldErrors[grade] && <span className="block normal-case text-red-400">{fieldErrors[grade]}</span>}
+                </label>
+              ))}
+            </div>
+            <div>
+              <textarea
+                className={`${inputClass} text-sm ${fieldErrors.reason ? 'border-red-500' : ''}`}
+                rows={3}
+                maxLength={500}
+                placeholder="Reason for the correction (required)"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              {fieldErrors.reason && <div className="text-xs text-red-400">{fieldErrors.reason}</div>}
+            </div>
+            {(formError || error) && <div className="text-sm text-red-400">{formError || error}</div>}
+            <div className="flex gap-2">
+              <button
+                onClick={() => submit('edit')}
+                disabled={saving !== null || !reason.trim()}
+                className="flex-1 bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 disabled:opacity-50 flex justify-center items-center gap-2"
+              >
+                {saving === 'edit' ? <RefreshCw size={16} className="animate-spin" /> : <Save size={16} />} Save Correction
+              </button>
+              <button
+                onClick={() => submit('void')}
+                disabled={saving !== null || !reason.trim()}
+                className="px-4 bg-slate-900 text-red-400 py-2.5 rounded-lg font-bold border border-slate-700 hover:bg-slate-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                {saving === 'void' ? <RefreshCw size={16} className="animate-spin" /> : <Ban size={16} />} Void
+              </button>
+              <button onClick={onClose} className="px-4 text-slate-400 hover:text-white text-sm">Cancel</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CorrectionsPanel({ stations, onChange }: { stations: Station[]; onChange: () => void }) {
+  const [corrections, setCorrections] = useState<PriceCorrection[]>([]);
+  const [status, setStatus] = useState<PriceCorrection['status'] | ''>('');
+  const [error, setError] = useState('');
+
+  const fetchCorrections = useCallback(async () => {
+    try {
+      const res = await api.get('/api/admin/corrections', {
+        query: { status: status || undefined }
+      });
+      setCorrections(res.data);
+    } catch (err) {
+      console.error('Failed to load corrections', err);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    (async () => { await fetchCorrections(); })();
+  }, [fetchCorrections]);
+
+  const review = async (correction: PriceCorrection, decision: 'approve' | 'reject') => {
+    const note = decision === 'reject' ? window.prompt('Why is this correction rejected? (optional)') : null;
+    if (decision === 'reject' && note === null) return;
+    setError('');
+    try {
+      const options = { path: { id: correction.id } };
+      await (note !== null
+        ? api.post('/api/admin/corrections/{id}/reject', { note }, options)
+        : api.post('/api/admin/corrections/{id}/approve', undefined, options));
+      await fetchCorrections();
+      if (decision === 'approve') onChange();
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Failed to review correction');
+    }
+  };
+
+  const stationName = (id: string) => stations.find((s) => s.id === id)?.name ?? `#${id}`;
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+  return (
+    <div className="bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+      <div className="p-5 flex items-center justify-between gap-4">
+        <h2 className="text-white font-bold flex items-center gap-2"><ClipboardCheck size={18} /> Price Corrections</h2>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as PriceCorrection['status'] | '')}
+          className="bg-slate-900 text-white p-2 rounded-lg border border-slate-700 outline-none text-sm"
+        >
+          <option value="">All</option>
+          <option value="pending">Awaiting approval</option>
+          <option value="applied">Applied</option>
+          <option value="rejected">Rejected</option>
+        </select>
+      </div>
+      {error && <div className="p-3 text-sm text-red-400">{error}</div>}
+      {corrections.length === 0 && (
+        <div className="p-8 text-center text-slate-500 italic text-sm">No corrections.</div>
+      )}
+      {corrections.map((correction) => (
+        <div key={correction.id} className="p-5 flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <div className="text-white font-bold flex items-center gap-2">
+              {stationName(correction.stationId)}
+              <span className="text-xs font-normal text-slate-400">{correction.date}</span>
+              <span className={`text-[10px] uppercase px-2 py-0.5 rounded border ${CORRECTION_STATUS_BADGE[correction.status]}`}>{correction.status}</span>
+            </div>
+            <div className="text-sm text-slate-300 font-mono">
+              {correction.action === 'void'
+                ? 'Voided entry'
+                : Object.entries(correction.prices ?? {}).map(([grade, price]) => (
+                    <span key={grade} className="mr-3 capitalize">
+                      {grade} {formatPrice(correction.original[grade as FuelGrade])} → {formatPrice(price)}
+                    </span>
+                  ))}
+            </div>
+            <div className="text-xs text-slate-400">“{correction.reason}”</div>
+            <div className="text-xs text-slate-500">
+              {correction.requestedBy} · {formatDateTime(correction.createdAt)}
+              {correction.reviewedBy && ` · ${correction.status === 'rejected' ? 'rejected' : 'approved'} by ${correction.reviewedBy}`}
+              {correction.reviewNote && `: ${correction.reviewNote}`}
+            </div>
+          </div>
+          {correction.status === 'pending' && (
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => review(correction, 'approve')} className="px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-500 text-xs font-bold flex items-center gap-1">
+                <CheckCircle2 size={14} /> Approve
+              </button>
+              <button onClick={() => review(correction, 'reject')} className="px-3 py-2 bg-slate-900 text-red-400 rounded-lg hover:bg-slate-700 border border-slate-700 text-xs font-bold">
+                Reject
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ================= CHANGE LOG PANEL =================
+function ChangeLogPanel({ stations, dates }: { stations: Station[]; dates: string[] }) {
+  const [stationId, setStationId] = useState('');
+  const [date, setDate] = useState('');
+  const [changes, setChanges] = useState<PriceChange[] | null>(null);
+  const timeZone = stations.find((s) => s.id === stationId)?.timeZone;
+
+  useEffect(() => {
+    if (!stationId) return;
+    let active = true;
+    (async () => {
+      try {
+        const res = await api.get('/api/admin/price-changes', {
+          query: { stationId, date: date || undefined }
+        });
+        if (!active) return;
+        setChanges(res.data.changes);
+        if (!date && res.data.date) setDate(res.data.date);
+      } catch (err) {
+        console.error('Failed to load price changes', err);
+      }
+    })();
+    return () => { active = false; };
+  }, [stationId, date]);
+
+  const selectClass = 'flex-1 bg-transparent text-white p-1 md:p-2 outline-none text-base md:text-lg font-medium cursor-pointer';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="flex-1 flex items-center gap-3 bg-slate-800 p-3 md:p-4 rounded-xl border border-slate-700">
+          <Database className="text-slate-400 shrink-0" size={20} />
+          <select value={stationId} onChange={(e) => { setStationId(e.target.value); setDate(''); }} className={selectClass}>
+            <option value="" className="bg-slate-800">Select a station</option>
+            {stations.map((station) => (
+              <option key={station.id} value={station.id} className="bg-slate-800">{station.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1 flex items-center gap-3 bg-slate-800 p-3 md:p-4 rounded-xl border border-slate-700">
+          <Calendar className="text-slate-400 shrink-0" size={20} />
+          <select value={date} onChange={(e) => setDate(e.target.value)} className={selectClass}>
+            <option value="" className="bg-slate-800">Latest day</option>
+            {dates.map((d) => (
+              <option key={d} value={d} className="bg-slate-800">{d}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {stationId && changes && (
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+          {changes.length === 0 && (
+            <div className="p-8 text-center text-slate-500 italic text-sm">No price changes recorded for this day.</div>
+          )}
+          {changes.map((change) => {
+            const delta = change.oldPrice === null ? null : change.newPrice - change.oldPrice;
+            return (
+              <div key={change.id} className="p-4 flex flex-col md:flex-row md:items-center gap-2 md:gap-6 text-slate-300">
+                <div className="font-mono text-sm text-slate-400 md:w-28 flex items-center gap-1" title={timeZone}>
+                  <Clock size={12} />
+                  {new Date(change.changedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', timeZone })}
+                </div>
+                <div className="md:w-24 uppercase text-xs font-bold tracking-wider text-slate-500">{change.grade}</div>
+                <div className="flex-1 flex items-center gap-2 font-mono">
+                  <span className="text-slate-500">{change.oldPrice === null ? '—' : `$${change.oldPrice.toFixed(3)}`}</span>
+                  <ArrowRight size={14} className="text-slate-600" />
+                  <span className="font-bold text-emerald-400">${change.newPrice.toFixed(3)}</span>
+                  {delta !== null && delta !== 0 && (
+                    <span className={`text-xs ${delta > 0 ? 'text-red-400' : 'text-emerald-500'}`}>
+                      {delta > 0 ? '+' : ''}{delta.toFixed(3)}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <User size={14} className="text-slate-500" />
+                  <span className="text-white">{change.updatedBy}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!stationId && (
+        <div className="bg-slate-800 rounded-2xl p-12 text-center text-slate-400 border border-slate-700 border-dashed">
+          <History size={48} className="mx-auto mb-4 opacity-20" />
+          Select a station above to view its intraday price changes
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ================= PRICE CHARTS PANEL =================
+type Granularity = 'day' | 'week' | 'month';
+
+const SERIES_COLORS = ['#34d399', '#60a5fa', '#f472b6', '#fbbf24', '#a78bfa', '#f87171', '#22d3ee', '#a3e635'];
+
+function localDateKey(date: Date) {
+  return date.toLocaleDateString('en-CA');
+}
+
+function PriceChartsPanel({ stations }: { stations: Station[] }) {
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [from, setFrom] = useState(() => localDateKey(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => localDateKey(new Date()));
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [series, setSeries] = useState<Record<string, ChartDataPoint[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!stationIds.length || !from || !to) return;
+    let active = true;
+    (async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const results = await Promise.all(
+          stationIds.map((id) =>
+            api.get('/api/admin/chart-data/{stationId}', { query: { from, to, granularity }, path: { stationId: id } })
+          )
+        );
+        if (active) {
+          setSeries(Object.fromEntries(results.map((res, i) => [stationIds[i], res.data.data])));
+        }
+      } catch (err) {
+        console.error('Failed to load chart data', err);
+        if (active) {
+          setError(axios.isAxiosError(err) && err.response?.data?.error
+            ? err.response.data.error
+            : 'Failed to load chart data');
+        }
+      }
+      if (active) setLoading(false);
+    })();
+    return () => { active = false; };
+  }, [stationIds, from, to, granularity]);
+
+  const toggleStation = (id: string) => {
+    setStationIds((ids) => ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]);
+  };
+
+  // One row per bucket with a column per station, for a single grade
+  const rowsForGrade = (grade: FuelGrade) => {
+    const buckets = series[stationIds[0]]?.map((p) => p.date) ?? [];
+    return buckets.map((date, i) => {
+      const row: Record<string, string | number | null> = { date };
+      for (const id of stationIds) row[id] = series[id]?.[i]?.[grade] ?? null;
+      return row;
+    });
+  };
+
+  // Buckets that include a corrected or voided day, circled on the chart
+  const correctedPoints = (grade: FuelGrade) =>
+    stationIds.flatMap((id) =>
+      (series[id] ?? [])
+        .filter((p) => p.corrected && p[grade] !== null)
+        .map((p) => ({ id, date: p.date, price: p[grade] as number }))
+    );
+
+  const inputClass = 'bg-slate-900 text-white p-2 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {stations.map((station) => {
+            const index = stationIds.indexOf(station.id);
+            return (
+              <button
+                key={station.id}
+                onClick={() => toggleStation(station.id)}
+                className={`px-3 py-1.5 rounded-full text-sm border transition-all ${
+                  index >= 0 ? 'text-white border-transparent' : 'text-slate-400 border-slate-600 hover:text-white'
+                }`}
+                style={index >= 0 ? { background: SERIES_COLORS[index % SERIES_COLORS.length] + '33', borderColor: SERIES_COLORS[index % SERIES_COLORS.length] } : undefined}
+              >
+                {station.name}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-400">
+          <Calendar size={18} />
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span>to</span>
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          <select value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)} className={inputClass}>
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+          {loading && <RefreshCw size={16} className="animate-spin" />}
+          <span className="ml-auto flex items-center gap-1.5 text-xs">
+            <span className="inline-block w-2.5 h-2.5 rounded-full border-2 border-amber-500" /> Includes corrected entries
+          </span>
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+      </div>
+
+      {stationIds.length > 0 && series[stationIds[0]] && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {FUEL_GRADES.map((grade) => (
+            <div key={grade} className="bg-slate-800 rounded-2xl p-4 md:p-6 border border-slate-700">
+              <h2 className="text-lg font-bold text-white mb-4 capitalize">{grade}</h2>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={rowsForGrade(grade)} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                    <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} />
+                    <YAxis
+                      stroke="#94a3b8"
+                      fontSize={12}
+                      domain={['auto', 'auto']}
+                      tickFormatter={(v: number) => `$${v.toFixed(2)}`}
+                    />
+                    <Tooltip
+                      contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: 8 }}
+                      formatter={(v) => (typeof v === 'number' ? `$${v.toFixed(3)}` : '-')}
+                    />
+                    <Legend />
+                    {stationIds.map((id, i) => (
+                      <Line
+                        key={id}
+                        type="monotone"
+                        dataKey={id}
+                        name={stations.find((s) => s.id === id)?.name ?? id}
+                        stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                        strokeWidth={2}
+                        dot={{ r: 2 }}
+                        connectNulls={false}
+                      />
+                    ))}
+                    {correctedPoints(grade).map(({ id, date, price }) => (
+                      <ReferenceDot key={`${id}-${date}`} x={date} y={price} r={5} fill="none" stroke="#f59e0b" strokeWidth={2} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {stationIds.length === 0 && (
+        <div className="bg-slate-800 rounded-2xl p-12 text-center text-slate-400 border border-slate-700 border-dashed">
+          <BarChart3 size={48} className="mx-auto mb-4 opacity-20" />
+          Select one or more stations above to view price history
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ================= IMPORT / EXPORT PANEL =================
+function DataPanel({ stations, onImported }: { stations: Station[]; onImported: () => void }) {
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState<'csv' | 'xlsx' | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<{ msg: string; type: 'success' | 'error'; errors?: ImportRowError[] } | null>(null);
+
+  const toggleStation = (id: string) => {
+    setStationIds((ids) => ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]);
+  };
+
+  // Downloads go through axios so the bearer token is sent
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setExporting(format);
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/export/price-history`, {
+        params: {
+          format,
+          stationIds: stationIds.join(',') || undefined,
+          from: from || undefined,
+          to: to || undefined
+        },
+        responseType: 'blob'
+      });
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `price-history_${from || 'start'}_${to || 'latest'}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Export failed', err);
+      setResult({ msg: 'Export failed', type: 'error' });
+    }
+    setExporting(null);
+  };
+
+  const handleImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setImporting(true);
+    setResult(null);
+    try {
+      const res = await axios.post(`${API_URL}/api/admin/import/price-history`, await file.text(), {
+        params: { dryRun: dryRun || undefined },
+        headers: { 'Content-Type': 'text/csv' }
+      });
+      if (dryRun) {
+        setResult({ msg: `${res.data.valid} rows are valid and ready to import`, type: 'success' });
+      } else {
+        setResult({ msg: `Imported ${res.data.imported} rows`, type: 'success' });
+        setFile(null);
+        onImported();
+      }
+    } catch (err) {
+      console.error('Import failed', err);
+      const data = axios.isAxiosError(err) ? err.response?.data : null;
+      setResult({
+        msg: data?.errors
+          ? `${data.errors.length} of ${data.rows} rows have errors. Nothing was imported.`
+          : data?.error || 'Import failed',
+        type: 'error',
+        errors: data?.errors
+      });
+    }
+    setImporting(false);
+  };
+
+  const inputClass = 'bg-slate-900 text-white p-2 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4 h-fit">
+        <h2 className="text-white font-bold flex items-center gap-2"><Download size={18} /> Export Price History</h2>
+        <div className="flex flex-wrap gap-2">
+          {stations.map((station) => (
+            <button
+              key={station.id}
+              onClick={() => toggleStation(station.id)}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-all ${
+                stationIds.includes(station.id)
+                  ? 'bg-blue-600/30 border-blue-500 text-white'
+                  : 'text-slate-400 border-slate-600 hover:text-white'
+              }`}
+            >
+              {station.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">No station selected exports all stations. Leave dates empty for all time.</p>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-400">
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          <span>to</span>
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <div className="flex gap-3">
+          {(['csv', 'xlsx'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="flex-1 bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 disabled:opacity-50 flex justify-center items-center gap-2 uppercase text-sm"
+            >
+              {exporting === format ? <RefreshCw size={16} className="animate-spin" /> : <FileSpreadsheet size={16} />}
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-4 h-fit">
+        <h2 className="text-white font-bold flex items-center gap-2"><Upload size={18} /> Import Historical Prices</h2>
+        <p className="text-xs text-slate-500 font-mono">
+          Columns: stationId, date, time, {FUEL_GRADES.join(', ')}, updatedBy
+        </p>
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => { setFile(e.target.files?.[0] ?? null); setResult(null); }}
+          className="block w-full text-sm text-slate-400 file:mr-3 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-slate-700 file:text-white"
+        />
+        <div className="flex gap-3">
+          <button
+            onClick={() => handleImport(true)}
+            disabled={!file || importing}
+            className="flex-1 bg-slate-900 text-slate-300 py-2.5 rounded-lg border border-slate-700 hover:bg-slate-700 disabled:opacity-50 text-sm font-medium"
+          >
+            Validate Only
+          </button>
+          <button
+            onClick={() => handleImport(false)}
+            disabled={!file || importing}
+            className="flex-1 bg-emerald-600 text-white py-2.5 rounded-lg font-bold hover:bg-emerald-500 disabled:opacity-50 flex justify-center items-center gap-2 text-sm"
+          >
+            {importing ? <RefreshCw size={16} className="animate-spin" /> : <Upload size={16} />} Import
+          </button>
+        </div>
+
+        {result && (
+          <div className={`text-sm p-3 rounded-lg ${result.type === 'success' ? 'bg-emerald-500/10 text-emerald-300' : 'bg-red-500/10 text-red-300'}`}>
+            {result.msg}
+          </div>
+        )}
+        {result?.errors && (
+          <div className="max-h-80 overflow-y-auto divide-y divide-slate-700 border border-slate-700 rounded-lg">
+            {result.errors.map((e) => (
+              <div key={`${e.row}-${e.messages[0]}`} className="p-3 text-sm">
+                <div className="text-slate-300 font-mono text-xs mb-1">
+                  Row {e.row} · station {e.stationId || '?'} · {e.date || '?'}
+                </div>
+                {e.messages.map((m) => <div key={m} className="text-red-300">{m}</div>)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ================= COMPETITORS PANEL =================
+const EMPTY_COMPETITOR_FORM = { name: '', brand: '', address: '', lat: '', lng: '' };
+
+function CompetitorsPanel({ stations }: { stations: Station[] }) {
+  const [competitors, setCompetitors] = useState<Competitor[]>([]);
+  const [form, setForm] = useState(EMPTY_COMPETITOR_FORM);
+  const [formError, setFormError] = useState('');
+  const [stationId, setStationId] = useState('');
+  const [grade, setGrade] = useState<FuelGrade>('regular');
+  const [comparison, setComparison] = useState<ComparisonPoint[] | null>(null);
+
+  const fetchCompetitors = useCallback(async () => {
+    try {
+      const res = await api.get('/api/admin/competitors');
+      setCompetitors(res.data);
+    } catch (err) {
+      console.error('Failed to load competitors', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => { await fetchCompetitors(); })();
+  }, [fetchCompetitors]);
+
+  useEffect(() => {
+    if (!stationId) return;
+    let active = true;
+    (async () => {
+      try {
+        const res = await api.get('/api/admin/competitor-comparison/{stationId}', { path: { stationId } });
+        if (active) setComparison(res.data.data);
+      } catch (err) {
+        console.error('Failed to load comparison', err);
+      }
+    })();
+    return () => { active = false; };
+  }, [stationId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+    try {
+      await api.post('/api/admin/competitors', form);
+      setForm(EMPTY_COMPETITOR_FORM);
+      await fetchCompetitors();
+    } catch (err) {
+      setFormError(axios.isAxiosError(err) && err.response?.data?.error
+        ? err.response.data.error
+        : 'Failed to add competitor');
+    }
+  };
+
+  const deactivate = async (competitor: Competitor) => {
+    try {
+      await api.delete('/api/admin/competitors/{id}', { path: { id: competitor.id } });
+      await fetchCompetitors();
+    } catch (err) {
+      console.error('Failed to deactivate competitor', err);
+    }
+  };
+
+  const stationName = (id: string) => stations.find((s) => s.id === id)?.name ?? `#${id}`;
+  const rows = (comparison ?? []).map((point) => {
+    const g = point[grade] as Exclude<ComparisonPoint[string], string>;
+    return { date: point.date, ours: g.ours, min: g.competitorMin, avg: g.competitorAvg, spread: g.spread };
+  });
+  const latestRow = [...rows].reverse().find((r) => r.ours !== null || r.avg !== null);
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+  const money = (v: number | null | undefined) => (typeof v === 'number' ? `$${v.toFixed(3)}` : '-');
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800 rounded-2xl border border-slate-700 p-4 md:p-6 space-y-4">
+        <div className="flex flex-col md:flex-row gap-3">
+          <select value={stationId} onChange={(e) => setStationId(e.target.value)} className={inputClass}>
+            <option value="">Select a station to compare</option>
+            {stations.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <select value={grade} onChange={(e) => setGrade(e.target.value as FuelGrade)} className={`${inputClass} md:w-48 capitalize`}>
+            {FUEL_GRADES.map((g) => <option key={g} value={g}>{g}</option>)}
+          </select>
+        </div>
+
+        {stationId && comparison && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                { label: 'Our price', value: money(latestRow?.ours) },
+                { label: 'Competitor min', value: money(latestRow?.min) },
+                { label: 'Competitor avg', value: money(latestRow?.avg) },
+                {
+                  label: 'Spread vs avg',
+                  value: typeof latestRow?.spread === 'number'
+                    ? `${latestRow.spread > 0 ? '+' : ''}${latestRow.spread.toFixed(3)}`
+                    : '-'
+                }
+              ].map((card) => (
+                <div key={card.label} className="bg-slate-900/50 p-3 rounded-lg border border-slate-700/50 text-center">
+                  <div className="text-[10px] uppercase text-slate-500 font-bold tracking-wider mb-1">{card.label}</div>
+                  <div className="text-lg font-mono font-bold text-emerald-400">{card.value}</div>
+                </div>
+              ))}
+            </div>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={rows} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                  <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} />
+                  <YAxis yAxisId="price" stroke="#94a3b8" fontSize={12} domain={['auto', 'auto']} tickFormatter={(v: number) => `$${v.toFixed(2)}`} />
+                  <YAxis yAxisId="spread" orientation="right" stroke="#94a3b8" fontSize={12} tickFormatter={(v: number) => v.toFixed(2)} />
+                  <Tooltip
+                    contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: 8 }}
+                    formatter={(v) => (typeof v === 'number' ? v.toFixed(3) : '-')}
+                  />
+                  <Legend />
+                  <Line yAxisId="price" dataKey="ours" name="Our price" stroke="#34d399" strokeWidth={2} dot={{ r: 2 }} />
+                  <Line yAxisId="price" dataKey="min" name="Competitor min" stroke="#60a5fa" strokeWidth={2} dot={{ r: 2 }} />
+                  <Line yAxisId="price" dataKey="avg" name="Competitor avg" stroke="#a78bfa" strokeWidth={2} dot={{ r: 2 }} />
+                  <Line yAxisId="spread" dataKey="spread" name="Spread vs avg" stroke="#fbbf24" strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+          {competitors.length === 0 && (
+            <div className="p-8 text-center text-slate-500 italic text-sm">No competitors added yet.</div>
+          )}
+          {competitors.map((c) => (
+            <div key={c.id} className={`p-5 flex items-start justify-between gap-4 ${c.active ? '' : 'opacity-50'}`}>
+              <div>
+                <h3 className="text-white font-bold flex items-center gap-2">
+                  <Swords size={16} className="text-rose-400" /> {c.name}
+                  {c.brand && <span className="text-[10px] uppercase bg-slate-900 text-slate-400 px-2 py-0.5 rounded border border-slate-600">{c.brand}</span>}
+                </h3>
+                <div className="text-sm text-slate-400 mt-1">{c.address}</div>
+                <div className="text-xs text-slate-500 mt-1">
+                  {c.links.length
+                    ? `Near ${c.links.map((l) => `${stationName(l.stationId)} (${l.distance.toFixed(1)} mi)`).join(', ')}`
+                    : 'Not near any of our stations'}
+                </div>
+              </div>
+              {c.active && (
+                <button onClick={() => deactivate(c)} title="Deactivate" className="p-2 bg-slate-900 text-red-400 rounded-lg hover:bg-slate-700 border border-slate-700">
+                  <Power size={16} />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3 h-fit">
+          <h2 className="text-white font-bold flex items-center gap-2 mb-2"><Plus size={18} /> Add Competitor</h2>
+          <input className={inputClass} placeholder="Name" value={form.name} onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))} />
+          <input className={inputClass} placeholder="Brand (optional)" value={form.brand} onChange={(e) => setForm((f) => ({ ...f, brand: e.target.value }))} />
+          <input className={inputClass} placeholder="Address" value={form.address} onChange={(e) => setForm((f) => ({ ...f, address: e.target.value }))} />
+          <div className="grid grid-cols-2 gap-3">
+            <input className={inputClass} placeholder="Latitude" inputMode="decimal" value={form.lat} onChange={(e) => setForm((f) => ({ ...f, lat: e.target.value }))} />
+            <input className={inputClass} placeholder="Longitude" inputMode="decimal" value={form.lng} onChange={(e) => setForm((f) => ({ ...f, lng: e.target.value }))} />
+          </div>
+          {formError && <div className="text-sm text-red-400">{formError}</div>}
+          <button className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 flex justify-center items-center gap-2">
+            <Save size={16} /> Save
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ================= SCHEDULED CHANGES PANEL =================
+const SCHEDULE_STATUS_STYLES: Record<ScheduledChange['status'], string> = {
+  pending: 'bg-blue-500/10 text-blue-300 border-blue-500/30',
+  applied: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30',
+  partial: 'bg-amber-500/10 text-amber-300 border-amber-500/30',
+  cancelled: 'bg-slate-700 text-slate-400 border-slate-600',
+  failed: 'bg-red-500/10 text-red-300 border-red-500/30'
+};
+
+// Tomorrow at 6 AM local, formatted for a datetime-local input
+function defaultEffectiveAt() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return `${localDateKey(date)}T06:00`;
+}
+
+function ScheduledChangesPanel({ stations }: { stations: Station[] }) {
+  const [changes, setChanges] = useState<ScheduledChange[]>([]);
+  const [effectiveAt, setEffectiveAt] = useState(defaultEffectiveAt);
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [prices, setPrices] = useState<Partial<Record<FuelGrade, string>>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [warnings, setWarnings] = useState<Record<string, Record<string, string[]>>>({});
+  const [saving, setSaving] = useState(false);
+  const needsConfirm = Object.keys(warnings).length > 0;
+
+  const fetchChanges = useCallback(async () => {
+    try {
+      const res = await api.get('/api/admin/scheduled-changes');
+      setChanges(res.data);
+    } catch (err) {
+      console.error('Failed to load scheduled changes', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => { await fetchChanges(); })();
+  }, [fetchChanges]);
+
+  const toggleStation = (id: string) => {
+    setWarnings({});
+    setStationIds((ids) => (ids.includes(id) ? ids.filter((s) => s !== id) : [...ids, id]));
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFieldErrors({});
+    try {
+      await api.post('/api/admin/scheduled-changes', {
+        effectiveAt: effectiveAt ? new Date(effectiveAt).toISOString() : '',
+        stationIds,
+        prices,
+        confirm: needsConfirm
+      });
+      setWarnings({});
+      setPrices({});
+      setStationIds([]);
+      await fetchChanges();
+    } catch (err) {
+      const data = axios.isAxiosError(err) ? err.response?.data : null;
+      if (data?.requiresConfirmation) setWarnings(data.warnings);
+      else setFieldErrors(data?.fieldErrors ?? { form: data?.error ?? 'Failed to schedule change' });
+    }
+    setSaving(false);
+  };
+
+  const cancel = async (change: ScheduledChange) => {
+    try {
+      await api.delete('/api/admin/scheduled-changes/{id}', { path: { id: change.id } });
+      await fetchChanges();
+    } catch (err) {
+      console.error('Failed to cancel scheduled change', err);
+    }
+  };
+
+  const stationName = (id: string) => stations.find((s) => s.id === id)?.name ?? `#${id}`;
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+  const errorText = (key: string) => fieldErrors[key] && <p className="text-xs text-red-400 mt-1">{fieldErrors[key]}</p>;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+        {changes.length === 0 && (
+          <div className="p-8 text-center text-slate-500 italic text-sm">No scheduled changes.</div>
+        )}
+        {changes.map((change) => (
+          <div key={change.id} className="p-5 flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-white font-bold">
+                <CalendarClock size={16} className="text-blue-400" />
+                {new Date(change.effectiveAt).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                <span className={`text-[10px] uppercase px-2 py-0.5 rounded border ${SCHEDULE_STATUS_STYLES[change.status]}`}>{change.status}</span>
+              </div>
+              <div className="text-sm font-mono text-emerald-400">
+                {Object.entries(change.prices).map(([g, p]) => `${g} $${p.toFixed(3)}`).join(' · ')}
+              </div>
+              <div className="text-xs text-slate-400">{change.stationIds.map(stationName).join(', ')}</div>
+              <div className="text-xs text-slate-500">
+                by {change.createdBy}
+                {change.cancelledBy && ` · cancelled by ${change.cancelledBy}`}
+                {change.skipped.length > 0 && ` · skipped ${change.skipped.map(stationName).join(', ')}`}
+                {change.failedStationIds.length > 0 && ` · failed at ${change.failedStationIds.map(stationName).join(', ')}`}
+                {change.error && ` · ${change.error}`}
+              </div>
+            </div>
+            {change.status === 'pending' && (
+              <button onClick={() => cancel(change)} title="Cancel" className="p-2 bg-slate-900 text-red-400 rounded-lg hover:bg-slate-700 border border-slate-700 shrink-0">
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleSchedule} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3 h-fit">
+        <h2 className="text-white font-bold flex items-center gap-2 mb-2"><Plus size={18} /> Schedule Change</h2>
+        <div>
+          <label className="text-xs text-slate-400">Effective at (local time)</label>
+          <input type="datetime-local" className={inputClass} value={effectiveAt} onChange={(e) => setEffectiveAt(e.target.value)} />
+          {errorText('effectiveAt')}
+        </div>
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Stations</div>
+          <div className="space-y-1 text-sm text-slate-300">
+            {stations.map((station) => (
+              <label key={station.id} className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={stationIds.includes(station.id)} onChange={() => toggleStation(station.id)} />
+                {station.name}
+              </label>
+            ))}
+          </div>
+          {errorText('stationIds')}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {FUEL_GRADES.map((grade) => (
+            <div key={grade}>
+              <input
+                type="number"
+                step="0.001"
+                inputMode="decimal"
+                placeholder={grade}
+                className={`${inputClass} capitalize`}
+                value={prices[grade] ?? ''}
+                onChange={(e) => {
+                  setWarnings({});
+                  setPrices((p) => ({ ...p, [grade]: e.target.value }));
+                }}
+              />
+              {errorText(grade)}
+            </div>
+          ))}
+        </div>
+        {errorText('prices')}
+        {errorText('form')}
+        {needsConfirm && (
+          <div className="text-xs bg-amber-500/10 text-amber-300 border border-amber-500/30 rounded-lg p-3 space-y-1">
+            {Object.entries(warnings).flatMap(([id, byGrade]) =>
+              Object.entries(byGrade).flatMap(([g, list]) =>
+                list.map((w) => <div key={`${id}-${g}-${w}`}>{stationName(id)} · {g}: {w}</div>)
+              )
+            )}
+          </div>
+        )}
+        <button disabled={saving} className={`w-full text-white py-2.5 rounded-lg font-bold disabled:opacity-50 flex justify-center items-center gap-2 ${needsConfirm ? 'bg-amber-600 hover:bg-amber-500' : 'bg-blue-600 hover:bg-blue-500'}`}>
+          {saving ? <RefreshCw size={16} className="animate-spin" /> : <CalendarClock size={16} />}
+          {needsConfirm ? 'Confirm & Schedule' : 'Schedule'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// ================= REPORTS PANEL =================
+function ReportsPanel({ stations }: { stations: Station[] }) {
+  const [reports, setReports] = useState<ArchivedReport[]>([]);
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [period, setPeriod] = useState<ArchivedReport['period']>('weekly');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [scheduleName, setScheduleName] = useState('');
+  const [busy, setBusy] = useState<'generate' | 'schedule' | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const [reportsRes, schedulesRes] = await Promise.all([
+        api.get('/api/admin/reports'),
+        api.get('/api/admin/report-schedules')
+      ]);
+      setReports(reportsRes.data);
+      setSchedules(schedulesRes.data);
+    } catch (err) {
+      console.error('Failed to load reports', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => { await fetchReports(); })();
+  }, [fetchReports]);
+
+  const toggleStation = (id: string) => {
+    setStationIds((ids) => (ids.includes(id) ? ids.filter((s) => s !== id) : [...ids, id]));
+  };
+
+  const errorMessage = (err: unknown, fallback: string) =>
+    axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback;
+
+  const generate = async () => {
+    setBusy('generate');
+    setError('');
+    try {
+      await api.post('/api/admin/reports', {
+        period,
+        from: from || undefined,
+        to: to || undefined,
+        stationIds
+      });
+      await fetchReports();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to generate report'));
+    }
+    setBusy(null);
+  };
+
+  const schedule = async () => {
+    if (period === 'custom') return;
+    setBusy('schedule');
+    setError('');
+    try {
+      await api.post('/api/admin/report-schedules', { name: scheduleName, period, stationIds });
+      setScheduleName('');
+      await fetchReports();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create schedule'));
+    }
+    setBusy(null);
+  };
+
+  const toggleSchedule = async (entry: ReportSchedule) => {
+    try {
+      await api.patch('/api/admin/report-schedules/{id}', { active: !entry.active }, { path: { id: entry.id } });
+      await fetchReports();
+    } catch (err) {
+      console.error('Failed to update schedule', err);
+    }
+  };
+
+  const removeSchedule = async (entry: ReportSchedule) => {
+    try {
+      await api.delete('/api/admin/report-schedules/{id}', { path: { id: entry.id } });
+      await fetchReports();
+    } catch (err) {
+      console.error('Failed to delete schedule', err);
+    }
+  };
+
+  const removeReport = async (report: ArchivedReport) => {
+    try {
+      await api.delete('/api/admin/reports/{id}', { path: { id: report.id } });
+      await fetchReports();
+    } catch (err) {
+      console.error('Failed to delete report', err);
+    }
+  };
+
+  // Downloads go through axios so the bearer token is sent; HTML opens in a new tab
+  const openReport = async (report: ArchivedReport, format: 'html' | 'pdf') => {
+    try {
+      const res = await axios.get(`${API_URL}/api/admin/reports/${report.id}.${format}`, { responseType: 'blob' });
+      const url = URL.createObjectURL(res.data);
+      if (format === 'html') {
+        window.open(url, '_blank', 'noopener');
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `price-report_${report.from}_${report.to}.pdf`;
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+    } catch (err) {
+      console.error('Failed to download report', err);
+    }
+  };
+
+  const stationName = (id: string) => stations.find((s) => s.id === id)?.name ?? `#${id}`;
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+          <h2 className="p-5 text-white font-bold flex items-center gap-2"><FileText size={18} /> Report Archive</h2>
+          {reports.length === 0 && (
+            <div className="p-8 text-center text-slate-500 italic text-sm">No reports yet.</div>
+          )}
+          {reports.map((report) => (
+            <div key={report.id} className="p-5 flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <div className="text-white font-bold">{report.title}</div>
+                <div className="text-xs text-slate-400">
+                  {report.stationCount} station(s) · {report.totals.changes} change(s) · {report.totals.missedDays} missed day(s)
+                </div>
+                <div className="text-xs text-slate-500">
+                  {formatDateTime(report.createdAt)} · {report.scheduleId ? 'scheduled' : `by ${report.generatedBy}`}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => openReport(report, 'html')} className="px-3 py-2 bg-slate-900 text-slate-300 rounded-lg hover:bg-slate-700 border border-slate-700 text-xs font-bold">
+                  HTML
+                </button>
+                <button onClick={() => openReport(report, 'pdf')} title="Download PDF" className="px-3 py-2 bg-slate-900 text-slate-300 rounded-lg hover:bg-slate-700 border border-slate-700 text-xs font-bold flex items-center gap-1">
+                  <Download size={14} /> PDF
+                </button>
+                <button onClick={() => removeReport(report)} title="Delete" className="p-2 bg-slate-900 text-red-400 rounded-lg hover:bg-slate-700 border border-slate-700">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+          <h2 className="p-5 text-white font-bold flex items-center gap-2"><CalendarClock size={18} /> Schedules</h2>
+          {schedules.length === 0 && (
+            <div className="p-8 text-center text-slate-500 italic text-sm">No scheduled reports.</div>
+          )}
+          {schedules.map((entry) => (
+            <div key={entry.id} className={`p-5 flex items-start justify-between gap-4 ${entry.active ? '' : 'opacity-50'}`}>
+              <div className="space-y-1">
+                <div className="text-white font-bold flex items-center gap-2">
+                  {entry.name}
+                  <span className="text-[10px] uppercase px-2 py-0.5 rounded border border-slate-600 text-slate-400">{entry.period}</span>
+                </div>
+                <div className="text-xs text-slate-400">
+                  {entry.stationIds.length ? entry.stationIds.map(stationName).join(', ') : 'All active stations'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {entry.active ? `Next ${formatDateTime(entry.nextRunAt)}` : 'Paused'}
+                  {entry.lastRunAt && ` · last ${formatDateTime(entry.lastRunAt)}`}
+                  {entry.lastError && <span className="text-red-400"> · {entry.lastError}</span>}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => toggleSchedule(entry)}
+                  title={entry.active ? 'Pause' : 'Resume'}
+                  className={`p-2 bg-slate-900 rounded-lg hover:bg-slate-700 border border-slate-700 ${entry.active ? 'text-amber-400' : 'text-emerald-400'}`}
+                >
+                  <Power size={16} />
+                </button>
+                <button onClick={() => removeSchedule(entry)} title="Delete" className="p-2 bg-slate-900 text-red-400 rounded-lg hover:bg-slate-700 border border-slate-700">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3 h-fit">
+        <h2 className="text-white font-bold flex items-center gap-2 mb-2"><Plus size={18} /> New Report</h2>
+        <select className={inputClass} value={period} onChange={(e) => setPeriod(e.target.value as ArchivedReport['period'])}>
+          <option value="weekly">Weekly (last full week)</option>
+          <option value="monthly">Monthly (last full month)</option>
+          <option value="custom">Custom range</option>
+        </select>
+        {period === 'custom' && (
+          <div className="grid grid-cols-2 gap-3">
+            <input type="date" className={inputClass} value={from} onChange={(e) => setFrom(e.target.value)} />
+            <input type="date" className={inputClass} value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        )}
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Stations (none selected = all active)</div>
+          <div className="space-y-1 text-sm text-slate-300">
+            {stations.map((station) => (
+              <label key={station.id} className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={stationIds.includes(station.id)} onChange={() => toggleStation(station.id)} />
+                {station.name}
+              </label>
+            ))}
+          </div>
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        <button
+          onClick={generate}
+          disabled={busy !== null}
+          className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 disabled:opacity-50 flex justify-center items-center gap-2"
+        >
+          {busy === 'generate' ? <RefreshCw size={16} className="animate-spin" /> : <FileText size={16} />} Generate Now
+        </button>
+        {period !== 'custom' && (
+          <div className="pt-3 border-t border-slate-700 space-y-3">
+            <input className={inputClass} placeholder="Schedule name" value={scheduleName} onChange={(e) => setScheduleName(e.target.value)} />
+            <button
+              onClick={schedule}
+              disabled={busy !== null || !scheduleName.trim()}
+              className="w-full bg-slate-900 text-slate-200 py-2.5 rounded-lg font-bold border border-slate-700 hover:bg-slate-700 disabled:opacity-50 flex justify-center items-center gap-2"
+            >
+              {busy === 'schedule' ? <RefreshCw size={16} className="animate-spin" /> : <CalendarClock size={16} />}
+              Schedule {period === 'weekly' ? 'Every Monday' : 'Every 1st of the Month'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ================= API KEYS PANEL =================
+const API_KEY_SCOPES: ApiKey['scopes'] = ['read', 'write'];
+
+function ApiKeysPanel({ stations }: { stations: Station[] }) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKey['scopes']>(['read']);
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [rateLimit, setRateLimit] = useState('60');
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [selectedKey, setSelectedKey] = useState<ApiKey | null>(null);
+  const [requests, setRequests] = useState<ApiRequestLog[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const res = await api.get('/api/admin/api-keys');
+      setKeys(res.data);
+    } catch (err) {
+      console.error('Failed to load API keys', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    (async () => { await fetchKeys(); })();
+  }, [fetchKeys]);
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value]);
+
+  const create = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const res = await api.post('/api/admin/api-keys', {
+        name,
+        scopes,
+        stationIds,
+        rateLimitPerMinute: Number(rateLimit)
+      });
+      setCreatedKey(res.data.key);
+      setName('');
+      setStationIds([]);
+      await fetchKeys();
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Failed to create key');
+    }
+    setSaving(false);
+  };
+
+  const revoke = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke "${key.name}"? Integrations using it stop working immediately.`)) return;
+    try {
+      await api.delete('/api/admin/api-keys/{id}', { path: { id: key.id } });
+      await fetchKeys();
+    } catch (err) {
+      console.error('Failed to revoke API key', err);
+    }
+  };
+
+  const showRequests = async (key: ApiKey) => {
+    setSelectedKey(key);
+    try {
+      const res = await api.get('/api/admin/api-keys/{id}/requests', { path: { id: key.id } });
+      setRequests(res.data);
+    } catch (err) {
+      console.error('Failed to load API requests', err);
+    }
+  };
+
+  const stationName = (id: string) => stations.find((s) => s.id === id)?.name ?? `#${id}`;
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {createdKey && (
+          <div className="bg-emerald-900/30 border border-emerald-700 rounded-2xl p-5 space-y-2">
+            <div className="text-emerald-300 font-bold text-sm">Copy this key now. It won't be shown again.</div>
+            <div className="flex gap-2">
+              <code className="flex-1 bg-slate-900 text-emerald-200 p-2.5 rounded-lg border border-slate-700 text-xs break-all">{createdKey}</code>
+              <button onClick={() => navigator.clipboard.writeText(createdKey)} title="Copy" className="p-2 bg-slate-900 text-slate-300 rounded-lg hover:bg-slate-700 border border-slate-700">
+                <Copy size={16} />
+              </button>
+              <button onClick={() => setCreatedKey(null)} className="px-3 py-2 bg-slate-900 text-slate-300 rounded-lg hover:bg-slate-700 border border-slate-700 text-xs font-bold">
+                Done
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700">
+          <h2 className="p-5 text-white font-bold flex items-center gap-2"><KeyRound size={18} /> API Keys</h2>
+          {keys.length === 0 && (
+            <div className="p-8 text-center text-slate-500 italic text-sm">No API keys yet.</div>
+          )}
+          {keys.map((key) => (
+            <div key={key.id} className={`p-5 flex items-start justify-between gap-4 ${key.active ? '' : 'opacity-50'}`}>
+              <div className="space-y-1">
+                <div className="text-white font-bold flex items-center gap-2">
+                  {key.name}
+                  <code className="text-[10px] text-slate-400">fk_{key.prefix}_…</code>
+                  {key.scopes.map((scope) => (
+                    <span key={scope} className="text-[10px] uppercase px-2 py-0.5 rounded border border-slate-600 text-slate-400">{scope}</span>
+                  ))}
+                </div>
+                <div className="text-xs text-slate-400">
+                  {key.stationIds.length ? key.stationIds.map(stationName).join(', ') : 'All stations'} · {key.rateLimitPerMinute}/min
+                </div>
+                <div className="text-xs text-slate-500">
+                  {key.revokedAt ? `Revoked ${formatDateTime(key.revokedAt)}` : `Created by ${key.createdBy}`}
+                  {key.lastUsedAt && ` · last used ${formatDateTime(key.lastUsedAt)}`}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => showRequests(key)} className="px-3 py-2 bg-slate-900 text-slate-300 rounded-lg hover:bg-slate-700 border border-slate-700 text-xs font-bold">
+                  Requests
+                </button>
+                {!key.revokedAt && (
+                  <button onClick={() => revoke(key)} title="Revoke" className="p-2 bg-slate-900 text-red-400 rounded-lg hover:bg-slate-700 border border-slate-700">
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {selectedKey && (
+          <div className="bg-slate-800 rounded-2xl border border-slate-700 overflow-hidden">
+            <h2 className="p-5 text-white font-bold flex items-center gap-2"><History size={18} /> Recent requests: {selectedKey.name}</h2>
+            {requests.length === 0 ? (
+              <div className="p-8 text-center text-slate-500 italic text-sm border-t border-slate-700">No requests logged.</div>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-900 text-slate-400 text-xs uppercase">
+                  <tr>
+                    <th className="p-3">Time</th>
+                    <th className="p-3">Request</th>
+                    <th className="p-3">Status</th>
+                    <th className="p-3 text-right">ms</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700 text-slate-300">
+                  {requests.map((log, i) => (
+                    <tr key={i}>
+                      <td className="p-3 text-xs">{formatDateTime(log.at)}</td>
+                      <td className="p-3 font-mono text-xs">{log.method} {log.path}</td>
+                      <td className={`p-3 font-bold ${log.status >= 400 ? 'text-red-400' : 'text-emerald-400'}`}>{log.status}</td>
+                      <td className="p-3 text-right text-xs">{log.durationMs}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3 h-fit">
+        <h2 className="text-white font-bold flex items-center gap-2 mb-2"><Plus size={18} /> New API Key</h2>
+        <input className={inputClass} placeholder="Name (e.g. POS vendor)" value={name} onChange={(e) => setName(e.target.value)} />
+        <div className="flex gap-4 text-sm text-slate-300">
+          {API_KEY_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 cursor-pointer capitalize">
+              <input type="checkbox" checked={scopes.includes(scope)} onChange={() => setScopes((s) => toggle(s, scope))} />
+              {scope}
+            </label>
+          ))}
+        </div>
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Requests per minute</div>
+          <input type="number" min={1} max={10000} className={inputClass} value={rateLimit} onChange={(e) => setRateLimit(e.target.value)} />
+        </div>
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Stations (none selected = all)</div>
+          <div className="space-y-1 text-sm text-slate-300">
+            {stations.map((station) => (
+              <label key={station.id} className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" checked={stationIds.includes(station.id)} onChange={() => setStationIds((ids) => toggle(ids, station.id))} />
+                {station.name}
+              </label>
+            ))}
+          </div>
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+        <button
+          onClick={create}
+          disabled={saving || !name.trim() || !scopes.length}
+          className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 disabled:opacity-50 flex justify-center items-center gap-2"
+        >
+          {saving ? <RefreshCw size={16} className="animate-spin" /> : <KeyRound size={16} />} Create Key
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ================= MARGINS PANEL =================
+const EMPTY_COST_FORM = { stationId: '', grade: 'regular' as FuelGrade, kind: 'delivery' as Delivery['kind'], costPerGallon: '', gallons: '', supplier: '', deliveredAt: '' };
+
+function MarginsPanel({ stations }: { stations: Station[] }) {
+  const [stationId, setStationId] = useState('');
+  const [grade, setGrade] = useState<FuelGrade | ''>('');
+  const [from, setFrom] = useState(() => localDateKey(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => localDateKey(new Date()));
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [report, setReport] = useState<MarginReport | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [costForm, setCostForm] = useState(EMPTY_COST_FORM);
+  const [costErrors, setCostErrors] = useState<Record<string, string>>({});
+  const [salesForm, setSalesForm] = useState<{ stationId: string; date: string; gallons: Partial<Record<FuelGrade, string>> }>(
+    () => ({ stationId: '', date: localDateKey(new Date()), gallons: {} })
+  );
+  const [salesErrors, setSalesErrors] = useState<Record<string, string>>({});
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    let active = true;
+    (async () => {
+      try {
+        const [marginRes, deliveryRes] = await Promise.all([
+          api.get('/api/admin/margins', {
+            query: { stationIds: stationId || undefined, grades: grade || undefined, from, to, granularity }
+          }),
+          api.get('/api/admin/deliveries', { query: { stationId: stationId || undefined, from, to } })
+        ]);
+        if (!active) return;
+        setReport(marginRes.data);
+        setDeliveries(deliveryRes.data);
+      } catch (err) {
+        console.error('Failed to load margins', err);
+      }
+    })();
+    return () => { active = false; };
+  }, [stationId, grade, from, to, granularity, reloadKey]);
+
+  const fieldErrorsOf = (err: unknown, fallback: string) => {
+    const data = axios.isAxiosError(err) ? err.response?.data : null;
+    return data?.fieldErrors ?? { form: data?.error ?? fallback };
+  };
+
+  const saveCost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCostErrors({});
+    try {
+      await api.post('/api/admin/deliveries', {
+        ...costForm,
+        gallons: costForm.gallons || null,
+        deliveredAt: costForm.deliveredAt ? new Date(costForm.deliveredAt).toISOString() : undefined
+      });
+      setCostForm((f) => ({ ...EMPTY_COST_FORM, stationId: f.stationId }));
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setCostErrors(fieldErrorsOf(err, 'Failed to save cost'));
+    }
+  };
+
+  const saveSales = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSalesErrors({});
+    const gallons = Object.fromEntries(Object.entries(salesForm.gallons).filter(([, v]) => v !== ''));
+    try {
+      await api.put('/api/admin/sales', { ...salesForm, gallons });
+      setSalesForm((f) => ({ ...f, gallons: {} }));
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setSalesErrors(fieldErrorsOf(err, 'Failed to save gallons'));
+    }
+  };
+
+  const removeDelivery = async (delivery: Delivery) => {
+    try {
+      await api.delete('/api/admin/deliveries/{id}', { path: { id: delivery.id } });
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      console.error('Failed to delete delivery', err);
+    }
+  };
+
+  const stationName = (id: string) => stations.find((s) => s.id === id)?.name ?? `#${id}`;
+  const series = report?.series.filter((s) => s.summary.avgMargin !== null) ?? [];
+  const chartRows = (series[0]?.points ?? []).map((point, i) => {
+    const row: Record<string, string | number | null> = { date: point.date };
+    for (const s of series) row[`${s.stationId}:${s.grade}`] = s.points[i]?.margin ?? null;
+    return row;
+  });
+  const money = (v: number | null, digits = 3) => (v === null ? '-' : `$${v.toFixed(digits)}`);
+  const inputClass = 'w-full bg-slate-900 text-white p-2.5 rounded-lg border border-slate-700 outline-none focus:ring-2 focus:ring-blue-500';
+  const errorText = (errors: Record<string, string>, key: string) => errors[key] && <p className="text-xs text-red-400 mt-1">{errors[key]}</p>;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 flex flex-wrap items-center gap-3 text-sm text-slate-400">
+        <select value={stationId} onChange={(e) => setStationId(e.target.value)} className={`${inputClass} md:w-56`}>
+          <option value="">All stations</option>
+          {stations.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+        <select value={grade} onChange={(e) => setGrade(e.target.value as FuelGrade | '')} className={`${inputClass} md:w-40 capitalize`}>
+          <option value="">All grades</option>
+          {FUEL_GRADES.map((g) => <option key={g} value={g}>{g}</option>)}
+        </select>
+        <Calendar size={18} />
+        <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={`${inputClass} md:w-44`} />
+        <span>to</span>
+        <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={`${inputClass} md:w-44`} />
+        <select value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)} className={`${inputClass} md:w-32`}>
+          <option value="day">Daily</option>
+          <option value="week">Weekly</option>
+          <option value="month">Monthly</option>
+        </select>
+      </div>
+
+      {report && (
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-300">
+            <thead className="bg-slate-900/50 text-xs uppercase text-slate-400 font-bold">
+              <tr>
+                <th className="p-4">Station</th>
+                <th className="p-4">Grade</th>
+                <th className="p-4 text-right">Avg margin / gal</th>
+                <th className="p-4 text-right">Gallons</th>
+                <th className="p-4 text-right">Gross margin</th>
+                <th className="p-4 text-right">Days below cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {series.length === 0 && (
+                <tr><td colSpan={6} className="p-8 text-center text-slate-500 italic">Record costs to see margins for this range.</td></tr>
+              )}
+              {series.map((s) => (
+                <tr key={`${s.stationId}:${s.grade}`}>
+                  <td className="p-4 text-white">{stationName(s.stationId)}</td>
+                  <td className="p-4 capitalize">{s.grade}</td>
+                  <td className={`p-4 text-right font-mono font-bold ${(s.summary.avgMargin ?? 0) < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{money(s.summary.avgMargin)}</td>
+                  <td className="p-4 text-right font-mono">{s.summary.gallons?.toLocaleString('en-US') ?? '-'}</td>
+                  <td className="p-4 text-right font-mono">{money(s.summary.totalMargin, 2)}</td>
+                  <td className={`p-4 text-right font-mono ${s.summary.belowCostDays ? 'text-red-400 font-bold' : ''}`}>{s.summary.belowCostDays}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {series.length > 0 && (
+        <div className="bg-slate-800 rounded-2xl p-4 md:p-6 border border-slate-700">
+          <h2 className="text-lg font-bold text-white mb-4">Margin per gallon</h2>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartRows} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} />
+                <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={(v: number) => `$${v.toFixed(2)}`} />
+                <Tooltip
+                  contentStyle={{ background: '#0f172a', border: '1px solid #334155', borderRadius: 8 }}
+                  formatter={(v) => (typeof v === 'number' ? `$${v.toFixed(3)}` : '-')}
+                />
+                <Legend />
+                {series.map((s, i) => (
+                  <Line
+                    key={`${s.stationId}:${s.grade}`}
+                    dataKey={`${s.stationId}:${s.grade}`}
+                    name={`${stationName(s.stationId)} · ${s.grade}`}
+                    stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 2 }}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+      {!!report?.warnings.length && (
+        <div className="bg-red-500/10 border border-red-500/30 rounded-2xl p-4 space-y-1 text-sm text-red-300">
+          <div className="font-bold flex items-center gap-2"><AlertTriangle size={16} /> Posted price below cost</div>
+          {report.warnings.slice(-20).reverse().map((w) => (
+            <div key={`${w.stationId}:${w.grade}:${w.date}`}>
+              {w.date} · {stationName(w.stationId)} · {w.grade}: ${w.price.toFixed(3)} vs cost ${w.cost.toFixed(3)} ({w.margin.toFixed(3)})
+            </div>
+          ))}
+        </div>
+      )}
 
-    if (!stationId) return showNotify('Please select a store first', 'error');
-    if (!staffName.trim()) return showNotify('Staff name is required', 'error');
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-slate-800 rounded-2xl border border-slate-700 divide-y divide-slate-700 h-fit">
+          <div className="p-4 text-white font-bold">Recent costs</div>
+          {deliveries.length === 0 && <div className="p-4 text-sm text-slate-500 italic">No costs recorded in this range.</div>}
+          {deliveries.slice(0, 15).map((d) => (
+            <div key={d.id} className="p-4 flex justify-between gap-3 text-sm">
+              <div>
+                <div className="text-white">{stationName(d.stationId)} · <span className="capitalize">{d.grade}</span></div>
+                <div className="text-xs text-slate-400">
+                  {d.date} · {d.kind === 'rack' ? 'rack quote' : `${d.gallons?.toLocaleString('en-US')} gal`}{d.supplier && ` · ${d.supplier}`}
+                </div>
+              </div>
+              <div className="flex items-start gap-2">
+                <span className="font-mono text-emerald-400">${d.costPerGallon.toFixed(4)}</span>
+                <button onClick={() => removeDelivery(d)} title="Delete" className="text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+              </div>
+            </div>
+          ))}
+        </div>
 
-    const priceKeys = Object.keys(prices) as (keyof typeof prices)[];
-    const allPricesEntered = priceKeys.every(key => 
-      prices[key] !== '' && Number(prices[key]) > 0
-    );
+        <form onSubmit={saveCost} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3 h-fit">
+          <h2 className="text-white font-bold flex items-center gap-2 mb-2"><DollarSign size={18} /> Record Cost</h2>
+          <select className={inputClass} value={costForm.stationId} onChange={(e) => setCostForm((f) => ({ ...f, stationId: e.target.value }))}>
+            <option value="">Select station</option>
+            {stations.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          {errorText(costErrors, 'stationId')}
+          <div className="grid grid-cols-2 gap-3">
+            <select className={`${inputClass} capitalize`} value={costForm.grade} onChange={(e) => setCostForm((f) => ({ ...f, grade: e.target.value as FuelGrade }))}>
+              {FUEL_GRADES.map((g) => <option key={g} value={g}>{g}</option>)}
+            </select>
+            <select className={inputClass} value={costForm.kind} onChange={(e) => setCostForm((f) => ({ ...f, kind: e.target.value as Delivery['kind'] }))}>
+              <option value="delivery">Delivery</option>
+              <option value="rack">Rack quote</option>
+            </select>
+          </div>
+          {errorText(costErrors, 'grade')}
+          <div className="grid grid-cols-2 gap-3">
+            <input className={inputClass} placeholder="Cost / gal" inputMode="decimal" value={costForm.costPerGallon} onChange={(e) => setCostForm((f) => ({ ...f, costPerGallon: e.target.value }))} />
+            <input className={inputClass} placeholder={costForm.kind === 'rack' ? 'Gallons (n/a)' : 'Gallons'} inputMode="decimal" disabled={costForm.kind === 'rack'} value={costForm.gallons} onChange={(e) => setCostForm((f) => ({ ...f, gallons: e.target.value }))} />
+          </div>
+          {errorText(costErrors, 'costPerGallon')}
+          {errorText(costErrors, 'gallons')}
+          <input className={inputClass} placeholder="Supplier (optional)" value={costForm.supplier} onChange={(e) => setCostForm((f) => ({ ...f, supplier: e.target.value }))} />
+          <input type="datetime-local" className={inputClass} value={costForm.deliveredAt} onChange={(e) => setCostForm((f) => ({ ...f, deliveredAt: e.target.value }))} />
+          {errorText(costErrors, 'deliveredAt')}
+          {errorText(costErrors, 'form')}
+          <button className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 flex justify-center items-center gap-2">
+            <Save size={16} /> Save Cost
+          </button>
+        </form>
 
-    if (!allPricesEntered) {
-      return showNotify('Please enter all four fuel prices', 'error');
-    }
+        <form onSubmit={saveSales} className="bg-slate-800 rounded-2xl border border-slate-700 p-5 space-y-3 h-fit">
+          <h2 className="text-white font-bold flex items-center gap-2 mb-2"><Fuel size={18} /> Gallons Sold</h2>
+          <select className={inputClass} value={salesForm.stationId} onChange={(e) => setSalesForm((f) => ({ ...f, stationId: e.target.value }))}>
+            <option value="">Select station</option>
+            {stations.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          {errorText(salesErrors, 'stationId')}
+          <input type="date" className={inputClass} value={salesForm.date} onChange={(e) => setSalesForm((f) => ({ ...f, date: e.target.value }))} />
+          {errorText(salesErrors, 'date')}
+          <div className="grid grid-cols-2 gap-3">
+            {(stations.find((s) => s.id === salesForm.stationId)?.grades ?? FUEL_GRADES).map((g) => (
+              <div key={g}>
+                <input
+                  className={`${inputClass} capitalize`}
+                  placeholder={g}
+                  inputMode="decimal"
+                  value={salesForm.gallons[g] ?? ''}
+                  onChange={(e) => setSalesForm((f) => ({ ...f, gallons: { ...f.gallons, [g]: e.target.value } }))}
+                />
+                {errorText(salesErrors, g)}
+              </div>
+            ))}
+          </div>
+          {errorText(salesErrors, 'gallons')}
+          {errorText(salesErrors, 'form')}
+          <button className="w-full bg-blue-600 text-white py-2.5 rounded-lg font-bold hover:bg-blue-500 flex justify-center items-center gap-2">
+            <Save size={16} /> Save Gallons
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
 
-    setLoading(true);
+// ================= ALERTS MENU =================
+const OVERDUE_REFRESH_MS = 60 * 1000;
+
+// Header badge listing overdue stations, with the recent alert log behind it
+function AlertsMenu({ refreshKey }: { refreshKey: number }) {
+  const [overdue, setOverdue] = useState<OverdueStation[]>([]);
+  const [alerts, setAlerts] = useState<AlertEntry[]>([]);
+  const [channels, setChannels] = useState<string[]>([]);
+  const [open, setOpen] = useState(false);
+  const [testing, setTesting] = useState(false);
 
+  const fetchOverdue = useCallback(async () => {
     try {
-      await Promise.all(
-        priceKeys.map((fuelType) =>
-          axios.post(`${API_URL}/api/update-price`, {
-            stationId,
-            updatedBy: staffName,
-            fuelType,
-            price: prices[fuelType]
-          })
-        )
-      );
+      const res = await api.get('/api/admin/overdue');
+      setOverdue(res.data);
+    } catch (err) {
+      console.error('Failed to load overdue stations', err);
+    }
+  }, []);
 
-      showNotify('All Prices Updated Successfully!', 'success');
-      setPrices({ regular: '', midgrade: '', premium: '', diesel: '' });
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const res = await api.get('/api/admin/alerts', { query: { limit: 10 } });
+      setAlerts(res.data.alerts);
+      setChannels(res.data.channels);
     } catch (err) {
-      console.error(err);
-      showNotify('Failed to submit prices', 'error');
+      console.error('Failed to load alerts', err);
     }
+  }, []);
 
-    setLoading(false);
-  };
+  useEffect(() => {
+    (async () => { await fetchOverdue(); })();
+    const timer = setInterval(fetchOverdue, OVERDUE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [fetchOverdue, refreshKey]);
 
-  return (
-    <div className="min-h-screen bg-slate-50 flex items-center justify-center p-4">
-      {notification && <Toast {...notification} />}
+  useEffect(() => {
+    if (!open) return;
+    (async () => { await fetchAlerts(); })();
+  }, [open, fetchAlerts, refreshKey]);
 
-      <div className="max-w-md w-full bg-white p-6 md:p-8 rounded-2xl shadow-sm border border-slate-200">
-        <h1 className="text-2xl md:text-3xl font-bold mb-6 md:mb-8 text-center text-slate-800">Set Fuel Prices</h1>
+  const sendTest = async () => {
+    setTesting(true);
+    try {
+      await api.post('/api/admin/alerts/test', undefined);
+      await fetchAlerts();
+    } catch (err) {
+      console.error('Failed to send test alert', err);
+    }
+    setTesting(false);
+  };
 
-        <form onSubmit={handleSubmit} className="space-y-5">
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">Select Location</label>
-            <select
-              className="w-full p-3 md:p-4 border border-slate-300 rounded-xl bg-white focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base"
-              value={stationId}
-              onChange={(e) => setStationId(e.target.value)}
-            >
-              <option value="">Choose Store...</option>
-              {stations.map((s) => (
-                <option key={s.id} value={s.id}>{s.name}</option>
-              ))}
-            </select>
-          </div>
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        title={overdue.length ? overdue.map((s) => s.name).join('\n') : 'No overdue stations'}
+        className={`h-full flex items-center gap-2 px-4 py-2.5 rounded-lg border transition-all text-sm font-medium ${
+          overdue.length
+            ? 'bg-amber-500/10 text-amber-300 border-amber-500/40 hover:bg-amber-500/20'
+            : 'bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700'
+        }`}
+      >
+        <Bell size={18} />
+        {overdue.length > 0 && <span>{overdue.length} overdue</span>}
+      </button>
 
-          <div>
-            <label className="block text-sm font-medium text-slate-700 mb-1">Your Name</label>
-            <input
-              className="w-full p-3 md:p-4 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base"
-              placeholder="Enter your name"
-              value={staffName}
-              onChange={(e) => setStaffName(e.target.value)}
-            />
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[90vw] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-30 text-sm">
+          <div className="p-4 border-b border-slate-700">
+            <div className="text-xs uppercase text-slate-500 font-bold tracking-wider mb-2">Overdue stations</div>
+            {overdue.length === 0 && <div className="text-slate-400">All stations are up to date.</div>}
+            {overdue.map((s) => (
+              <div key={s.stationId} className="flex justify-between gap-2 py-1">
+                <span className="text-white">{s.name}</span>
+                <span className="text-xs text-amber-300 text-right">
+                  {s.missedDeadline ? `missed ${s.deadline}` : 'stale'}
+                  {' · '}{s.ageHours === null ? 'never updated' : `${s.ageHours}h ago`}
+                </span>
+              </div>
+            ))}
           </div>
-
-          <div className="grid grid-cols-1 gap-4">
-            {(['regular', 'midgrade', 'premium', 'diesel'] as const).map((type) => (
-              <div key={type}>
-                <label className="block text-sm font-medium text-slate-700 mb-1 capitalize">{type} Price</label>
-                <div className="relative">
-                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500 font-bold">$</span>
-                  <input
-                    type="number"
-                    step="0.01"
-                    inputMode="decimal"
-                    onKeyDown={handleKeyDown}
-                    placeholder={`0.00`}
-                    className="w-full p-3 md:p-4 pl-8 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none transition-all text-base"
-                    value={prices[type]}
-                    onChange={(e) =>
-                      setPrices((p) => ({ ...p, [type]: e.target.value }))
-                    }
-                  />
+          <div className="p-4 space-y-2 max-h-72 overflow-y-auto">
+            <div className="text-xs uppercase text-slate-500 font-bold tracking-wider">Recent alerts</div>
+            {alerts.length === 0 && <div className="text-slate-400">No alerts sent yet.</div>}
+            {alerts.map((alert) => (
+              <div key={alert.id} className="border-l-2 border-slate-600 pl-2">
+                <div className="text-slate-200">{alert.message}</div>
+                <div className="text-xs text-slate-500">
+                  {new Date(alert.createdAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  {alert.deliveries.map((d) => (
+                    <span key={d.channel} className={d.ok ? 'text-emerald-400' : 'text-red-400'} title={d.error}> · {d.channel} {d.ok ? 'sent' : 'failed'}</span>
+                  ))}
                 </div>
               </div>
             ))}
           </div>
-
-          <button
-            disabled={loading}
-            className="w-full bg-blue-600 text-white py-4 rounded-xl font-bold flex justify-center gap-2 items-center hover:bg-blue-700 transition-colors disabled:opacity-50 mt-4 shadow-lg shadow-blue-200 active:scale-[0.98]"
-          >
-            {loading ? <RefreshCw size={20} className="animate-spin" /> : <Save size={20} />}
-            {loading ? 'Updating...' : 'Submit Prices'}
-          </button>
-        </form>
-      </div>
+          <div className="p-3 border-t border-slate-700 flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-500">{channels.length ? `Channels: ${channels.join(', ')}` : 'No channels configured'}</span>
+            <button onClick={sendTest} disabled={testing} className="flex items-center gap-1 text-xs px-3 py-1.5 bg-slate-900 text-slate-300 rounded-lg border border-slate-700 hover:bg-slate-700 disabled:opacity-50">
+              <Send size={12} /> Test
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
 // ================= ADMIN PAGE =================
-function AdminPage() {
+type ConnectionStatus = 'connecting' | 'live' | 'polling';
+
+const POLL_INTERVAL_MS = 10000;
+const STREAM_RETRY_MS = 15000;
+const HIGHLIGHT_MS = 5000;
+
+const CONNECTION_BADGE: Record<ConnectionStatus, { label: string; className: string }> = {
+  connecting: { label: 'Connecting', className: 'text-slate-400 border-slate-600' },
+  live: { label: 'Live', className: 'text-emerald-400 border-emerald-700' },
+  polling: { label: 'Polling', className: 'text-amber-400 border-amber-700' }
+};
+
+function AdminPage({ org, onOrgChange, onLogout }: {
+  org: Organization;
+  onOrgChange: (org: Organization) => void;
+  onLogout: () => void;
+}) {
   const [adminData, setAdminData] = useState<AdminData | null>(null);
-  const [view, setView] = useState<'table' | 'chart'>('table');
+  const [view, setView] = useState<'table' | 'chart' | 'changes' | 'margins' | 'reports' | 'scheduled' | 'competitors' | 'stations' | 'apiKeys' | 'corrections' | 'data'>('table');
   const [selectedDate, setSelectedDate] = useState<string>('');
-  const [selectedStation, setSelectedStation] = useState<string>('');
-  const [chartData, setChartData] = useState<ChartDataPoint[] | null>(null);
   const [refreshing, setRefreshing] = useState(false);
-  const lastFetchedStation = React.useRef<string | null>(null);
+  const [connection, setConnection] = useState<ConnectionStatus>('connecting');
+  // stationId -> true while its row shows the "just updated" highlight
+  const [highlighted, setHighlighted] = useState<Record<string, boolean>>({});
+  // Bumped on live price/alert events so the alerts menu refetches
+  const [alertsKey, setAlertsKey] = useState(0);
+  const [correcting, setCorrecting] = useState<{ station: Station; entry: PriceEntry } | null>(null);
 
   const fetchAdminData = useCallback(async () => {
     setRefreshing(true);
     try {
-      const res = await axios.get(`${API_URL}/api/admin/price-history`);
-      setAdminData(res.data);
-      
+      const res = await api.get('/api/admin/price-history');
+      // Keep any older windows already paged in; the newest one is refreshed
+      setAdminData((current) => ({
+        ...res.data,
+        history: { ...current?.history, ...res.data.history },
+        ...(current?.from && res.data.from && current.from < res.data.from
+          ? { from: current.from, nextCursor: current.nextCursor }
+          : {})
+      }));
+
       const dates = Object.keys(res.data.history).sort().reverse();
-      if (dates.length > 0 && !selectedDate) {
-        setSelectedDate(dates[0]);
+      if (dates.length > 0) {
+        setSelectedDate((current) => current || dates[0]);
       }
     } catch (err) {
       console.error('Failed to load admin data', err);
     }
     setRefreshing(false);
-  }, [selectedDate]);
+  }, []);
 
-  const fetchChartData = useCallback(async (stationId: string) => {
+  const loadOlderHistory = async () => {
+    if (!adminData?.nextCursor) return;
+    setRefreshing(true);
     try {
-      const res = await axios.get(`${API_URL}/api/admin/chart-data/${stationId}`);
-      setChartData(res.data.data);
+      const res = await api.get('/api/admin/price-history', {
+        query: { before: adminData.nextCursor }
+      });
+      setAdminData((current) => current && {
+        ...current,
+        history: { ...res.data.history, ...current.history },
+        from: res.data.from ?? current.from,
+        nextCursor: res.data.nextCursor
+      });
     } catch (err) {
-      console.error('Failed to load chart data', err);
+      console.error('Failed to load older history', err);
     }
+    setRefreshing(false);
+  };
+
+  // Patch a single station/day in place instead of refetching everything
+  const applyPriceEvent = useCallback(({ stationId, date, entry }: PriceChangeEvent) => {
+    setAdminData((data) => data && {
+      ...data,
+      history: {
+        ...data.history,
+        [date]: { ...data.history[date], [stationId]: [entry] }
+      }
+    });
+    setSelectedDate((current) => current || date);
+    setAlertsKey((k) => k + 1);
+    setHighlighted((h) => ({ ...h, [stationId]: true }));
+    setTimeout(() => {
+      setHighlighted((h) => {
+        const next = { ...h };
+        delete next[stationId];
+        return next;
+      });
+    }, HIGHLIGHT_MS);
   }, []);
 
   useEffect(() => {
-    let active = true;
-    (async () => { if (active) await fetchAdminData(); })();
-    const interval = setInterval(() => { fetchAdminData(); }, 10000);
-    return () => { active = false; clearInterval(interval); };
+    (async () => { await fetchAdminData(); })();
   }, [fetchAdminData]);
 
+  // Live updates over SSE; poll while the stream is down and keep retrying it
   useEffect(() => {
-    if (view === 'chart' && selectedStation && lastFetchedStation.current !== selectedStation) {
-      lastFetchedStation.current = selectedStation;
-      setTimeout(() => { fetchChartData(selectedStation); }, 0);
-    }
-  }, [view, selectedStation, fetchChartData]);
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let wasLive = false;
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+    const startPolling = () => {
+      setConnection('polling');
+      if (!pollTimer) pollTimer = setInterval(() => { fetchAdminData(); }, POLL_INTERVAL_MS);
+    };
+
+    const connect = () => {
+      const token = localStorage.getItem(TOKEN_KEY) ?? '';
+      source = new EventSource(`${API_URL}/api/admin/events?access_token=${encodeURIComponent(token)}`);
+      source.onopen = () => {
+        stopPolling();
+        setConnection('live');
+        // Catch up on anything missed while disconnected
+        if (wasLive) fetchAdminData();
+        wasLive = true;
+      };
+      source.addEventListener('price-change', (e) => {
+        applyPriceEvent(JSON.parse((e as MessageEvent).data));
+      });
+      source.addEventListener('history-imported', () => { fetchAdminData(); });
+      source.addEventListener('alert', () => { setAlertsKey((k) => k + 1); });
+      source.onerror = () => {
+        startPolling();
+        // CLOSED means the browser gave up reconnecting on its own
+        if (source?.readyState === EventSource.CLOSED) {
+          retryTimer = setTimeout(connect, STREAM_RETRY_MS);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      source?.close();
+      stopPolling();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [fetchAdminData, applyPriceEvent]);
 
   if (!adminData) {
     return (
@@ -284,8 +3259,15 @@ function AdminPage() {
         {/* --- Header --- */}
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
           <h1 className="text-2xl font-bold text-white flex items-center gap-3">
-            <Database className="text-emerald-400" size={24} />
-            Admin Dashboard
+            {org.logoUrl ? <OrgBrand org={org} /> : <><Database className="text-emerald-400" size={24} />{org.name}</>}
+            <span className="text-slate-400 font-medium">Admin Dashboard</span>
+            <span
+              className={`flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-full border ${CONNECTION_BADGE[connection].className}`}
+              title={connection === 'polling' ? `Live stream unavailable, refreshing every ${POLL_INTERVAL_MS / 1000}s` : undefined}
+            >
+              <Radio size={12} className={connection === 'live' ? 'animate-pulse' : ''} />
+              {CONNECTION_BADGE[connection].label}
+            </span>
           </h1>
           <div className="flex w-full md:w-auto gap-3">
             <Link
@@ -294,6 +3276,7 @@ function AdminPage() {
             >
               Back to Form
             </Link>
+            <AlertsMenu refreshKey={alertsKey} />
             <button
               onClick={fetchAdminData}
               className={`px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-500 transition-all shadow-lg shadow-blue-900/50 ${
@@ -302,11 +3285,18 @@ function AdminPage() {
             >
               <RefreshCw size={20} />
             </button>
+            <button
+              onClick={onLogout}
+              title="Sign out"
+              className="px-4 py-2.5 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 transition-all border border-slate-700"
+            >
+              <LogOut size={20} />
+            </button>
           </div>
         </div>
 
         {/* --- View Toggle --- */}
-        <div className="flex bg-slate-800 p-1 rounded-xl mb-6 w-full md:w-fit border border-slate-700">
+        <div className="flex bg-slate-800 p-1 rounded-xl mb-6 w-full md:w-fit border border-slate-700 overflow-x-auto">
           <button
             onClick={() => setView('table')}
             className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
@@ -329,8 +3319,138 @@ function AdminPage() {
             <BarChart3 size={18} />
             Price History
           </button>
+          <button
+            onClick={() => setView('changes')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'changes'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <History size={18} />
+            Change Log
+          </button>
+          <button
+            onClick={() => setView('margins')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'margins'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <DollarSign size={18} />
+            Margins
+          </button>
+          <button
+            onClick={() => setView('reports')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'reports'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <FileText size={18} />
+            Reports
+          </button>
+          <button
+            onClick={() => setView('scheduled')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'scheduled'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <CalendarClock size={18} />
+            Scheduled
+          </button>
+          <button
+            onClick={() => setView('competitors')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'competitors'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <Swords size={18} />
+            Competitors
+          </button>
+          <button
+            onClick={() => setView('stations')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'stations'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <MapPin size={18} />
+            Stations
+          </button>
+          <button
+            onClick={() => setView('corrections')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'corrections'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <ClipboardCheck size={18} />
+            Corrections
+          </button>
+          <button
+            onClick={() => setView('apiKeys')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'apiKeys'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <KeyRound size={18} />
+            API Keys
+          </button>
+          <button
+            onClick={() => setView('data')}
+            className={`flex-1 md:flex-none flex justify-center items-center gap-2 px-6 py-2.5 rounded-lg transition-all text-sm font-medium ${
+              view === 'data'
+                ? 'bg-slate-700 text-white shadow-sm'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            <FileSpreadsheet size={18} />
+            Import / Export
+          </button>
         </div>
 
+        {/* --- CORRECTIONS VIEW --- */}
+        {view === 'corrections' && <CorrectionsPanel stations={adminData.stations} onChange={fetchAdminData} />}
+
+        {/* --- API KEYS VIEW --- */}
+        {view === 'apiKeys' && <ApiKeysPanel stations={adminData.stations} />}
+
+        {/* --- IMPORT / EXPORT VIEW --- */}
+        {view === 'data' && <DataPanel stations={adminData.stations} onImported={fetchAdminData} />}
+
+        {/* --- CHANGE LOG VIEW --- */}
+        {view === 'changes' && <ChangeLogPanel stations={adminData.stations} dates={dates} />}
+
+        {/* --- MARGINS VIEW --- */}
+        {view === 'margins' && <MarginsPanel stations={adminData.stations} />}
+
+        {/* --- SCHEDULED CHANGES VIEW --- */}
+        {view === 'reports' && <ReportsPanel stations={adminData.stations} />}
+
+        {view === 'scheduled' && <ScheduledChangesPanel stations={adminData.stations} />}
+
+        {/* --- COMPETITORS VIEW --- */}
+        {view === 'competitors' && <CompetitorsPanel stations={adminData.stations} />}
+
+        {/* --- STATIONS VIEW --- */}
+        {view === 'stations' && (
+          <div className="space-y-6">
+            <OrgSettingsPanel onSaved={onOrgChange} />
+            <StationsPanel org={org} onChange={fetchAdminData} />
+          </div>
+        )}
+
         {/* --- TABLE VIEW --- */}
         {view === 'table' && (
           <div className="space-y-6">
@@ -345,6 +3465,7 @@ function AdminPage() {
                 {dates.map((date) => (
                   <option key={date} value={date} className="bg-slate-800">
                     {new Date(date).toLocaleDateString('en-US', {
+                      timeZone: 'UTC',
                       weekday: 'short',
                       year: 'numeric',
                       month: 'short',
@@ -353,6 +3474,16 @@ function AdminPage() {
                   </option>
                 ))}
               </select>
+              {adminData.nextCursor && (
+                <button
+                  type="button"
+                  onClick={loadOlderHistory}
+                  disabled={refreshing}
+                  className="shrink-0 text-sm text-slate-300 hover:text-white border border-slate-600 rounded-lg px-3 py-1.5 disabled:opacity-50"
+                >
+                  Load older days
+                </button>
+              )}
             </div>
 
             {/* Content */}
@@ -371,29 +3502,79 @@ function AdminPage() {
                           <th className="p-5 text-right">Midgrade</th>
                           <th className="p-5 text-right">Premium</th>
                           <th className="p-5 text-right">Diesel</th>
+                          <th className="p-5"></th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-slate-700">
                         {adminData.stations.map((station) => {
                           const stationData = currentDateData[station.id]?.[0];
                           return (
-                            <tr key={station.id} className="hover:bg-slate-700/50 transition-colors text-slate-300">
-                              <td className="p-5 font-bold text-white">{station.name}</td>
+                            <tr
+                              key={station.id}
+                              className={`hover:bg-slate-700/50 transition-colors duration-700 text-slate-300 ${
+                                highlighted[station.id]
+                                  ? 'bg-emerald-500/20'
+                                  : stationData?.flags.length ? 'bg-amber-500/10' : ''
+                              } ${stationData?.voided ? 'opacity-60' : ''}`}
+                            >
+                              <td className="p-5 font-bold text-white">
+                                <div className="flex items-center gap-2">
+                                  {station.name}
+                                  {highlighted[station.id] && (
+                                    <span className="text-[10px] uppercase tracking-wider bg-emerald-500 text-white px-2 py-0.5 rounded-full">Just updated</span>
+                                  )}
+                                  {!!stationData?.flags.length && (
+                                    <span title={stationData.flags.join('\n')}>
+                                      <AlertTriangle size={16} className="text-amber-400" />
+                                    </span>
+                                  )}
+                                  {stationData?.voided && (
+                                    <span title={stationData.correctionReason ?? undefined} className="text-[10px] uppercase tracking-wider bg-red-500/20 text-red-300 px-2 py-0.5 rounded-full">Voided</span>
+                                  )}
+                                </div>
+                              </td>
                               <td className="p-5 font-mono text-sm text-slate-400">
-                                {stationData ? new Date(stationData.time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : 'No data'}
+                                {stationData
+                                  ? new Date(stationData.time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone: station.timeZone, timeZoneName: 'short' })
+                                  : 'No data'}
                               </td>
                               <td className="p-5">
                                 <span className="bg-slate-900 px-2 py-1 rounded text-xs border border-slate-600">
                                   {stationData?.updatedBy || 'N/A'}
                                 </span>
+                                {stationData && stationData.changeCount > 1 && (
+                                  <span className="ml-2 text-xs text-slate-500">{stationData.changeCount} changes</span>
+                                )}
                               </td>
                               {['regular', 'midgrade', 'premium', 'diesel'].map(fuel => (
-                                <td key={fuel} className="p-5 text-right font-mono font-bold text-emerald-400">
+                                <td key={fuel} className={`p-5 text-right font-mono font-bold text-emerald-400 ${stationData?.voided ? 'line-through' : ''}`}>
+                                  {station.unavailableGrades?.includes(fuel as FuelGrade) && (
+                                    <span className="block text-[10px] font-sans font-medium uppercase text-red-400">Out of stock</span>
+                                  )}
+                                  {stationData?.corrected.includes(fuel as FuelGrade) && (
+                                    <span
+                                      className="mr-1 text-amber-400"
+                                      title={`Corrected from ${formatPrice(stationData.original?.[fuel])}: ${stationData.correctionReason}`}
+                                    >
+                                      <Pencil size={12} className="inline" />
+                                    </span>
+                                  )}
                                   {stationData?.prices[fuel as keyof typeof stationData.prices] 
                                     ? `$${stationData?.prices[fuel as keyof typeof stationData.prices]?.toFixed(2)}` 
                                     : '-'}
                                 </td>
                               ))}
+                              <td className="p-5 text-right">
+                                {stationData && !stationData.voided && (
+                                  <button
+                                    onClick={() => setCorrecting({ station, entry: stationData })}
+                                    title="Correct or void this entry"
+                                    className="p-2 text-slate-400 hover:text-white rounded-lg hover:bg-slate-700"
+                                  >
+                                    <Pencil size={16} />
+                                  </button>
+                                )}
+                              </td>
                             </tr>
                           );
                         })}
@@ -407,18 +3588,25 @@ function AdminPage() {
                   {adminData.stations.map((station) => {
                     const stationData = currentDateData[station.id]?.[0];
                     return (
-                      <div key={station.id} className="bg-slate-800 rounded-xl p-5 border border-slate-700 shadow-sm">
+                      <div
+                        key={station.id}
+                        className={`rounded-xl p-5 border shadow-sm transition-colors duration-700 ${
+                          highlighted[station.id] ? 'bg-emerald-900/40 border-emerald-600' : 'bg-slate-800 border-slate-700'
+                        }`}
+                      >
                         <div className="flex justify-between items-start mb-4 pb-4 border-b border-slate-700">
                           <div>
                             <h3 className="text-lg font-bold text-white flex items-center gap-2">
                               <Fuel size={16} className="text-blue-500"/> {station.name}
+                              {!!stationData?.flags.length && <AlertTriangle size={16} className="text-amber-400" />}
+                              {stationData?.voided && <span className="text-[10px] uppercase bg-red-500/20 text-red-300 px-2 py-0.5 rounded-full">Voided</span>}
                             </h3>
                           </div>
                           <div className="text-right">
                              {stationData ? (
                                 <div className="flex items-center gap-1 text-xs text-slate-400 bg-slate-900 px-2 py-1 rounded-full">
                                   <Clock size={12}/>
-                                  {new Date(stationData.time).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                                  {new Date(stationData.time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', timeZone: station.timeZone, timeZoneName: 'short' })}
                                 </div>
                              ) : (
                                <span className="text-xs text-red-400 bg-red-900/20 px-2 py-1 rounded">No Data</span>
@@ -432,7 +3620,7 @@ function AdminPage() {
                                {['regular', 'midgrade', 'premium', 'diesel'].map(fuel => (
                                  <div key={fuel} className="bg-slate-900/50 p-3 rounded-lg text-center border border-slate-700/50">
                                     <div className="text-[10px] uppercase text-slate-500 font-bold tracking-wider mb-1">{fuel}</div>
-                                    <div className="text-lg font-mono font-bold text-emerald-400">
+                                    <div className={`text-lg font-mono font-bold ${stationData.corrected.includes(fuel as FuelGrade) ? 'text-amber-400' : 'text-emerald-400'} ${stationData.voided ? 'line-through' : ''}`}>
                                        ${stationData.prices[fuel as keyof typeof stationData.prices]?.toFixed(2)}
                                     </div>
                                  </div>
@@ -441,7 +3629,22 @@ function AdminPage() {
                             <div className="flex items-center gap-2 text-sm text-slate-400 bg-slate-900 p-2 rounded-lg">
                               <User size={14} />
                               Updated by: <span className="text-white font-medium">{stationData.updatedBy}</span>
+                              {!stationData.voided && (
+                                <button onClick={() => setCorrecting({ station, entry: stationData })} className="ml-auto flex items-center gap-1 text-xs text-slate-300 hover:text-white">
+                                  <Pencil size={12} /> Correct
+                                </button>
+                              )}
                             </div>
+                            {(stationData.voided || stationData.corrected.length > 0) && (
+                              <div className="text-xs text-amber-300 bg-amber-500/10 p-2 rounded-lg mt-2">
+                                {stationData.voided ? 'Voided' : 'Corrected'}: {stationData.correctionReason}
+                              </div>
+                            )}
+                            {stationData.flags.map((flag) => (
+                              <div key={flag} className="flex items-center gap-2 text-xs text-amber-300 bg-amber-500/10 p-2 rounded-lg mt-2">
+                                <AlertTriangle size={12} className="shrink-0" /> {flag}
+                              </div>
+                            ))}
                           </>
                         ) : (
                           <div className="text-center text-slate-500 py-2 italic text-sm">
@@ -457,63 +3660,18 @@ function AdminPage() {
           </div>
         )}
 
-        {/* --- CHART VIEW --- */}
-        {view === 'chart' && (
-          <div className="space-y-6">
-            <div className="flex items-center gap-3 bg-slate-800 p-3 md:p-4 rounded-xl border border-slate-700">
-              <Database className="text-slate-400 shrink-0" size={20} />
-              <select
-                value={selectedStation}
-                onChange={(e) => setSelectedStation(e.target.value)}
-                className="flex-1 bg-transparent text-white p-1 md:p-2 outline-none text-base md:text-lg font-medium cursor-pointer"
-              >
-                <option value="" className="bg-slate-800">Select a station</option>
-                {adminData.stations.map((station) => (
-                  <option key={station.id} value={station.id} className="bg-slate-800">
-                    {station.name}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            {chartData && selectedStation && (
-              <div className="bg-slate-800 rounded-2xl p-4 md:p-8 border border-slate-700">
-                <h2 className="text-lg md:text-xl font-bold text-white mb-6">
-                  History: <span className="text-blue-400">{adminData.stations.find(s => s.id === selectedStation)?.name}</span>
-                </h2>
-                <div className="space-y-3">
-                  {chartData.reverse().map((point, idx) => (
-                    <div key={idx} className="flex flex-col md:flex-row md:items-center gap-3 md:gap-4 bg-slate-900/50 p-4 rounded-xl border border-slate-700/30">
-                      <div className="text-slate-400 font-mono text-sm border-b md:border-b-0 md:border-r border-slate-700 pb-2 md:pb-0 md:pr-4 md:w-32">
-                        {new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
-                      </div>
-                      <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-4">
-                        {['regular', 'midgrade', 'premium', 'diesel'].map((type) => {
-                          const price = point[type as keyof Omit<ChartDataPoint, 'date'>];
-                          return (
-                            <div key={type} className="text-center md:text-left bg-slate-800 md:bg-transparent p-2 md:p-0 rounded-lg">
-                              <div className="text-[10px] md:text-xs text-slate-500 uppercase mb-1">{type}</div>
-                              <div className="text-base md:text-lg font-bold text-emerald-400 font-mono">
-                                {price ? `$${price.toFixed(2)}` : '-'}
-                              </div>
-                            </div>
-                          );
-                        })}
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {!selectedStation && (
-              <div className="bg-slate-800 rounded-2xl p-12 text-center text-slate-400 border border-slate-700 border-dashed">
-                <BarChart3 size={48} className="mx-auto mb-4 opacity-20" />
-                Select a station above to view price history
-              </div>
-            )}
-          </div>
+        {correcting && (
+          <CorrectionForm
+            station={correcting.station}
+            date={selectedDate}
+            entry={correcting.entry}
+            onClose={() => setCorrecting(null)}
+            onSaved={fetchAdminData}
+          />
         )}
+
+        {/* --- CHART VIEW --- */}
+        {view === 'chart' && <PriceChartsPanel stations={adminData.stations} />}
       </div>
     </div>
   );
@@ -521,11 +3679,93 @@ function AdminPage() {
 
 // ================= APP =================
 export default function App() {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [org, setOrg] = useState<Organization | null>(null);
+  const [checkingSession, setCheckingSession] = useState(() => !!localStorage.getItem(TOKEN_KEY));
+
+  // Restore a saved session on first load
+  useEffect(() => {
+    const token = localStorage.getItem(TOKEN_KEY);
+    if (!token) return;
+    setAuthToken(token);
+    api.get('/api/auth/me')
+      .then((res) => {
+        setUser(res.data.user);
+        setOrg(res.data.org);
+        saveSession(res.data.user, res.data.org);
+      })
+      .catch((err) => {
+        // Only a rejected token ends the session; offline or a server hiccup
+        // falls back to the last known user so queued entries keep working
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          setAuthToken(null);
+          return;
+        }
+        const saved = loadSession();
+        if (saved) {
+          setUser(saved.user);
+          setOrg(saved.org);
+        }
+      })
+      .finally(() => setCheckingSession(false));
+  }, []);
+
+  // Any 401 means the session is gone; drop back to the login screen
+  useEffect(() => {
+    const id = axios.interceptors.response.use(undefined, (err) => {
+      if (axios.isAxiosError(err) && err.response?.status === 401 && !err.config?.url?.endsWith('/api/auth/login')) {
+        setAuthToken(null);
+        setUser(null);
+      }
+      return Promise.reject(err);
+    });
+    return () => axios.interceptors.response.eject(id);
+  }, []);
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await api.post('/api/auth/logout', undefined);
+    } catch (err) {
+      console.error('Logout failed', err);
+    }
+    setAuthToken(null);
+    setUser(null);
+  }, []);
+
+  if (checkingSession) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <RefreshCw className="animate-spin text-slate-400" size={32} />
+      </div>
+    );
+  }
+
+  const handleLogin = (loggedIn: AuthUser, loggedInOrg: Organization) => {
+    setUser(loggedIn);
+    setOrg(loggedInOrg);
+    saveSession(loggedIn, loggedInOrg);
+  };
+
+  const handleOrgChange = (updated: Organization) => {
+    setOrg(updated);
+    if (user) saveSession(user, updated);
+  };
+
+  const login = <LoginPage onLogin={handleLogin} />;
+
   return (
     <Router>
       <Routes>
-        <Route path="/" element={<StaffPage />} />
-        <Route path="/admin-view" element={<AdminPage />} />
+        <Route path="/map" element={<StationMapPage />} />
+        <Route path="/" element={user && org ? <StaffPage user={user} org={org} onLogout={handleLogout} /> : login} />
+        <Route
+          path="/admin-view"
+          element={
+            !user || !org ? login
+              : user.role === 'admin' ? <AdminPage org={org} onOrgChange={handleOrgChange} onLogout={handleLogout} />
+              : <Navigate to="/" replace />
+          }
+        />
       </Routes>
     </Router>
   );
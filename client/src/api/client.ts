@@ -0,0 +1,68 @@
+// Typed wrapper over the shared axios instance: paths, path/query parameters,
+// JSON request bodies and response data all come from the generated schema,
+// so a server change that regenerates schema.ts breaks mismatched callers at
+// compile time. Auth and organization headers still come from axios defaults.
+import axios, { type AxiosRequestConfig } from 'axios';
+import type { paths } from './schema';
+
+type Method = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+type Operation<P extends keyof paths, M extends Method> = NonNullable<paths[P][M]>;
+
+// Paths that define the given method
+type PathsWith<M extends Method> = {
+  [P in keyof paths]: [Operation<P, M>] extends [never] ? never : P;
+}[keyof paths];
+
+type JsonContent<R> = R extends { content: { 'application/json': infer T } } ? T : never;
+
+// Data of the 200/201 JSON response
+type ResponseData<Op> = Op extends { responses: infer R } ? JsonContent<R[Extract<keyof R, 200 | 201>]> : never;
+
+type RequestBody<Op> = Op extends { requestBody?: infer B }
+  ? [NonNullable<B>] extends [never] ? undefined : JsonContent<NonNullable<B>>
+  : undefined;
+
+type PathParams<Op> = Op extends { parameters: { path: infer T } } ? T : undefined;
+type QueryParams<Op> = Op extends { parameters: { query?: infer T } } ? T : undefined;
+
+type Options<Op> = Omit<AxiosRequestConfig, 'url' | 'method' | 'params' | 'data'> & {
+  path?: PathParams<Op>;
+  query?: QueryParams<Op>;
+};
+
+// Options become mandatory for paths with {placeholders}
+type OptionsArg<Op> = PathParams<Op> extends undefined
+  ? [options?: Options<Op>]
+  : [options: Options<Op> & { path: PathParams<Op> }];
+
+export function createApiClient(baseUrl: string) {
+  const request = <Op>(method: Method, template: string, data: unknown, options: Options<Op> = {}) => {
+    const { path, query, ...config } = options;
+    const params = (path ?? {}) as Record<string, string | number>;
+    const url = template.replace(/\{(\w+)\}/g, (_, key: string) => encodeURIComponent(String(params[key])));
+    return axios.request<ResponseData<Op>>({ ...config, method, url: `${baseUrl}${url}`, params: query, data });
+  };
+
+  return {
+    get: <P extends PathsWith<'get'>>(path: P, ...[options]: OptionsArg<Operation<P, 'get'>>) =>
+      request<Operation<P, 'get'>>('get', path, undefined, options),
+    delete: <P extends PathsWith<'delete'>>(path: P, ...[options]: OptionsArg<Operation<P, 'delete'>>) =>
+      request<Operation<P, 'delete'>>('delete', path, undefined, options),
+    post: <P extends PathsWith<'post'>>(
+      path: P,
+      body: RequestBody<Operation<P, 'post'>>,
+      ...[options]: OptionsArg<Operation<P, 'post'>>
+    ) => request<Operation<P, 'post'>>('post', path, body, options),
+    put: <P extends PathsWith<'put'>>(
+      path: P,
+      body: RequestBody<Operation<P, 'put'>>,
+      ...[options]: OptionsArg<Operation<P, 'put'>>
+    ) => request<Operation<P, 'put'>>('put', path, body, options),
+    patch: <P extends PathsWith<'patch'>>(
+      path: P,
+      body: RequestBody<Operation<P, 'patch'>>,
+      ...[options]: OptionsArg<Operation<P, 'patch'>>
+    ) => request<Operation<P, 'patch'>>('patch', path, body, options),
+  };
+}
@@ -0,0 +1,104 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { describe, expect, it, vi } from 'vitest';
+import { replayQueue, type PriceSubmission, type QueuedSubmission } from './offlineQueue';
+
+function queued(n: number, overrides: Partial<QueuedSubmission> = {}): QueuedSubmission {
+  return {
+    submissionId: `submission-${n}`,
+    capturedAt: `2026-10-0${n}T13:00:00.000Z`,
+    stationId: '1',
+    userId: 'user-a',
+    stationName: 'Main St',
+    prices: { regular: '3.199' },
+    confirm: false,
+    status: 'queued',
+    ...overrides,
+  };
+}
+
+function httpError(status: number, data: unknown = {}) {
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+    status,
+    statusText: '',
+    data,
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+}
+
+function memoryStore() {
+  return { put: vi.fn(async (item: QueuedSubmission) => item), remove: vi.fn(async (id: string) => id) };
+}
+
+describe('replayQueue', () => {
+  it('sends queued items in order with their capture time and removes them', async () => {
+    const send = vi.fn<(submission: PriceSubmission) => Promise<unknown>>(async () => ({}));
+    const store = memoryStore();
+    const items = [queued(1), queued(2, { status: 'rejected' }), queued(3)];
+
+    const result = await replayQueue(items, 'user-a', send, store);
+
+    expect(result).toEqual({ synced: 2, stop: null });
+    expect(send.mock.calls.map(([submission]) => submission)).toEqual([
+      { submissionId: 'submission-1', capturedAt: '2026-10-01T13:00:00.000Z', stationId: '1', prices: { regular: '3.199' }, confirm: false },
+      { submissionId: 'submission-3', capturedAt: '2026-10-03T13:00:00.000Z', stationId: '1', prices: { regular: '3.199' }, confirm: false },
+    ]);
+    expect(store.remove.mock.calls).toEqual([['submission-1'], ['submission-3']]);
+  });
+
+  it('keeps server rejections for staff and continues with the rest', async () => {
+    const warnings = { regular: ['40.0% above previous day ($2.284)'] };
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(409, { warnings }))
+      .mockRejectedValueOnce(httpError(422, { fieldErrors: { stationId: 'Unknown station' } }))
+      .mockRejectedValueOnce(httpError(400, { error: 'submissionId must be 8-64 letters, digits or dashes' }))
+      .mockRejectedValueOnce(httpError(403, { error: 'Not assigned to this station' }))
+      .mockResolvedValueOnce({});
+    const store = memoryStore();
+
+    const result = await replayQueue([queued(1), queued(2), queued(3), queued(4), queued(5)], 'user-a', send, store);
+
+    expect(result).toEqual({ synced: 1, stop: null });
+    expect(store.put.mock.calls.map(([item]) => [item.submissionId, item.status])).toEqual([
+      ['submission-1', 'needs-confirm'],
+      ['submission-2', 'rejected'],
+      ['submission-3', 'rejected'],
+      ['submission-4', 'rejected'],
+    ]);
+    expect(store.put.mock.calls[0][0].warnings).toEqual(warnings);
+    expect(store.put.mock.calls[2][0].fieldErrors).toEqual({
+      submission: 'submissionId must be 8-64 letters, digits or dashes',
+    });
+    expect(store.put.mock.calls[3][0].fieldErrors).toEqual({ submission: 'Not assigned to this station' });
+    expect(store.remove.mock.calls).toEqual([['submission-5']]);
+  });
+
+  it.each([
+    ['offline', new AxiosError('Network Error', 'ERR_NETWORK')],
+    ['signed-out', httpError(401)],
+    ['server-error', httpError(503)],
+  ])('stops with %s and leaves the remaining items queued', async (stop, error) => {
+    const send = vi.fn().mockResolvedValueOnce({}).mockRejectedValueOnce(error);
+    const store = memoryStore();
+
+    const result = await replayQueue([queued(1), queued(2), queued(3)], 'user-a', send, store);
+
+    expect(result).toEqual({ synced: 1, stop });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(store.remove.mock.calls).toEqual([['submission-1']]);
+    expect(store.put).not.toHaveBeenCalled();
+  });
+
+  it('leaves items captured by another user for them to replay', async () => {
+    const send = vi.fn<(submission: PriceSubmission) => Promise<unknown>>(async () => ({}));
+    const store = memoryStore();
+    const items = [queued(1, { userId: 'user-b' }), queued(2), queued(3, { userId: 'user-b' })];
+
+    const result = await replayQueue(items, 'user-a', send, store);
+
+    expect(result).toEqual({ synced: 1, stop: null });
+    expect(send.mock.calls.map(([submission]) => submission.submissionId)).toEqual(['submission-2']);
+    expect(store.remove.mock.calls).toEqual([['submission-2']]);
+  });
+});
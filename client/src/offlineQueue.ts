@@ -0,0 +1,105 @@
+// Price submissions made without a connection wait in IndexedDB until they
+// can be replayed. Each keeps its submissionId so replays are idempotent.
+import axios from 'axios';
+import type { components } from './api/schema';
+
+const QUEUE_DB = 'fuelify-offline';
+const QUEUE_STORE = 'submissions';
+
+export interface PriceSubmission {
+  submissionId: string;
+  capturedAt: string;
+  stationId: string;
+  prices: Partial<Record<components['schemas']['FuelGrade'], string>>;
+  confirm: boolean;
+}
+
+export interface QueuedSubmission extends PriceSubmission {
+  // Who captured it; only their session may replay it, so the prices are
+  // recorded under the right name on a shared device
+  userId: string;
+  stationName: string;
+  status: 'queued' | 'needs-confirm' | 'rejected';
+  warnings?: Record<string, string[]>;
+  fieldErrors?: Record<string, string>;
+}
+
+function openQueueDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(QUEUE_DB, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(QUEUE_STORE, { keyPath: 'submissionId' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function queueRequest<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openQueueDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(QUEUE_STORE, mode);
+    const req = run(tx.objectStore(QUEUE_STORE));
+    tx.oncomplete = () => { db.close(); resolve(req.result); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+  });
+}
+
+export async function queueAll() {
+  const items = await queueRequest('readonly', (store) => store.getAll() as IDBRequest<QueuedSubmission[]>);
+  return items.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+}
+
+export const queuePut = (item: QueuedSubmission) => queueRequest('readwrite', (store) => store.put(item));
+export const queueDelete = (submissionId: string) => queueRequest('readwrite', (store) => store.delete(submissionId));
+
+// Why a replay ended early: no connection, an expired session (staff must sign
+// in again) or a server error (retry later)
+export type ReplayStop = 'offline' | 'signed-out' | 'server-error';
+
+interface QueueStore {
+  put: (item: QueuedSubmission) => Promise<unknown>;
+  remove: (submissionId: string) => Promise<unknown>;
+}
+
+// Replays the signed-in user's queued submissions in capture order; items
+// other staff captured wait for them to sign in. Server-side rejections, a
+// 403 for a station the user no longer covers included, are kept for staff to
+// confirm or discard; anything that affects every remaining item stops the
+// replay.
+export async function replayQueue(
+  items: QueuedSubmission[],
+  userId: string,
+  send: (submission: PriceSubmission) => Promise<unknown>,
+  store: QueueStore = { put: queuePut, remove: queueDelete }
+): Promise<{ synced: number; stop: ReplayStop | null }> {
+  let synced = 0;
+
+  for (const item of items) {
+    if (item.status !== 'queued' || item.userId !== userId) continue;
+    try {
+      const { submissionId, capturedAt, stationId, prices, confirm } = item;
+      await send({ submissionId, capturedAt, stationId, prices, confirm });
+      await store.remove(submissionId);
+      synced += 1;
+    } catch (err) {
+      if (!axios.isAxiosError(err) || !err.response) return { synced, stop: 'offline' };
+      const { status, data } = err.response;
+      if (status === 409) {
+        await store.put({ ...item, status: 'needs-confirm', warnings: data.warnings });
+      } else if (status === 422) {
+        await store.put({ ...item, status: 'rejected', fieldErrors: data.fieldErrors });
+      } else if (status === 401) {
+        return { synced, stop: 'signed-out' };
+      } else if (status >= 500) {
+        return { synced, stop: 'server-error' };
+      } else {
+        await store.put({ ...item, status: 'rejected', fieldErrors: { submission: data?.error ?? `Request failed (${status})` } });
+      }
+    }
+  }
+  return { synced, stop: null };
+}
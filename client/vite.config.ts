@@ -1,8 +1,28 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// Lists the hashed build output so the service worker can precache it at install
+function assetManifest(): Plugin {
+  return {
+    name: "fuelify-asset-manifest",
+    apply: "build",
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter((file) => file.startsWith("assets/"))
+        .map((file) => `/${file}`)
+        .sort();
+      this.emitFile({
+        type: "asset",
+        fileName: "asset-manifest.json",
+        source: JSON.stringify({ assets }, null, 2),
+      });
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     react(),
+    assetManifest(),
   ],
 });
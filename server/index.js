@@ -1,18 +1,50 @@
+const crypto = require("crypto");
+const { EventEmitter } = require("events");
 const express = require("express");
 const cors = require("cors");
 const mongoose = require("mongoose");
+const ExcelJS = require("exceljs");
+const { parse: parseCsv } = require("csv-parse/sync");
+const nodemailer = require("nodemailer");
+const PDFDocument = require("pdfkit");
+const GAZETTEER = require("./data/gazetteer.json");
+const OPENAPI_SPEC = require("./openapi.json");
 
 const app = express();
-app.use(cors());
+
+// Browser origins allowed to call the API: the shipped client at fuelify.app
+// and its tenant subdomains, unless CORS_ORIGINS overrides them
+// (comma-separated, "*" wildcards such as https://*.example.com, or a lone "*"
+// for any origin during local development). API-key integrations call
+// server-to-server and are unaffected.
+const DEFAULT_CORS_ORIGINS = "https://fuelify.app,https://*.fuelify.app";
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || DEFAULT_CORS_ORIGINS)
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+function corsOrigin() {
+  if (CORS_ORIGINS.includes("*")) return true;
+  return CORS_ORIGINS.map((origin) =>
+    origin.includes("*")
+      ? new RegExp(`^${origin.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, "[^.]+")}$`)
+      : origin
+  );
+}
+app.use(cors({ origin: corsOrigin() }));
 app.use(express.json());
 
 // 1. Disable buffering globally
 mongoose.set("bufferCommands", false);
 
 // ============================================================
-// 📍 STATION CONFIGURATION (Verified Coordinates)
+// 📍 STATION SEED DATA (Verified Coordinates)
+// Only used to populate an empty Station collection on first boot;
+// stations are managed through the admin API after that.
 // ============================================================
-const STATIONS = [
+const FUEL_GRADES = ["regular", "midgrade", "premium", "diesel"];
+
+const SEED_STATIONS = [
   // ID 1: EagleStores (Placeholder / Admin Test Store)
   { 
     id: "1", 
@@ -25,6 +57,7 @@ const STATIONS = [
   { 
     id: "2", 
     name: "Killbuck Marathon", 
+    brand: "marathon",
     lat: 40.494994, 
     lng: -81.985704, 
     address: "205 W Front St, Killbuck, OH 44637" 
@@ -33,6 +66,7 @@ const STATIONS = [
   { 
     id: "3", 
     name: "Loudonville Marathon", 
+    brand: "marathon",
     lat: 40.637842, 
     lng: -82.230366, 
     address: "236 N Union St, Loudonville, OH 44842" 
@@ -41,6 +75,7 @@ const STATIONS = [
   { 
     id: "4", 
     name: "ARCO East Ave", 
+    brand: "arco",
     lat: 41.043609, 
     lng: -81.572290, 
     address: "2215 East Ave, Akron, OH 44314" 
@@ -58,16 +93,59 @@ const STATIONS = [
 // ============================================================
 // 🗄️ DATABASE SCHEMA
 // ============================================================
+// A fuel chain / dealer group. Every station, user and price record belongs
+// to exactly one organization, and every query is scoped to it.
+const OrganizationSchema = new mongoose.Schema(
+  {
+    // Resolves the tenant from a subdomain or the X-Org header
+    slug: { type: String, required: true, unique: true, lowercase: true, trim: true, match: /^[a-z0-9][a-z0-9-]{1,30}$/ },
+    name: { type: String, required: true, trim: true },
+    logoUrl: { type: String, default: null, trim: true },
+    // Grades this chain sells; station grades must be a subset
+    grades: {
+      type: [{ type: String, enum: FUEL_GRADES }],
+      default: () => [...FUEL_GRADES],
+    },
+    // Alert destinations for this organization only
+    alertEmailTo: { type: String, default: null, trim: true },
+    alertWebhookUrl: { type: String, default: null, trim: true },
+    // Price corrections wait for a second admin's approval
+    requireCorrectionApproval: { type: Boolean, default: false },
+    // IANA zone for report periods and run times; null means DEFAULT_TIME_ZONE
+    timeZone: { type: String, default: null },
+    active: { type: Boolean, default: true },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+const Organization = mongoose.model("Organization", OrganizationSchema);
+
+const orgRef = { type: mongoose.Schema.Types.ObjectId, ref: "Organization", required: true };
+
 const PriceHistorySchema = new mongoose.Schema(
   {
+    orgId: orgRef,
     stationId: { type: String, required: true },
     date: { type: String, required: true },
     time: { type: String, required: true },
     updatedBy: { type: String, default: "Staff" },
+    updatedByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    changeCount: { type: Number, default: 0 },
+    // Guardrail warnings staff confirmed past, e.g. "regular: 35% above 14-day average"
+    flags: { type: [String], default: [] },
+    // "app" for staff submissions, "import" for bulk CSV uploads
+    source: { type: String, default: "app" },
     regular: { type: Number, default: null },
     midgrade: { type: Number, default: null },
     premium: { type: Number, default: null },
     diesel: { type: Number, default: null },
+    // Admin corrections. A voided day is kept but left out of current prices,
+    // charts and reports; original holds each corrected grade's prior price.
+    voided: { type: Boolean, default: false },
+    correctedGrades: { type: [String], default: [] },
+    original: { type: mongoose.Schema.Types.Mixed, default: null },
+    correctedAt: { type: Date, default: null },
+    correctionReason: { type: String, default: null },
   },
   {
     timestamps: true,
@@ -76,175 +154,4798 @@ const PriceHistorySchema = new mongoose.Schema(
   }
 );
 
+PriceHistorySchema.index({ stationId: 1, date: -1, time: -1 });
+// One snapshot per station and business day
+PriceHistorySchema.index({ stationId: 1, date: 1 }, { unique: true });
+PriceHistorySchema.index({ orgId: 1, date: -1, time: -1 });
+
 const PriceHistory = mongoose.model("PriceHistory", PriceHistorySchema);
 
+// Append-only log of every individual price change. The daily PriceHistory
+// document is a snapshot derived from these entries.
+const PriceChangeSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    stationId: { type: String, required: true },
+    date: { type: String, required: true },
+    grade: { type: String, enum: FUEL_GRADES, required: true },
+    oldPrice: { type: Number, default: null },
+    newPrice: { type: Number, required: true },
+    updatedBy: { type: String, required: true },
+    updatedByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    // When the price was captured; for offline-queued submissions this is
+    // earlier than receivedAt
+    changedAt: { type: Date, required: true },
+    receivedAt: { type: Date, default: null },
+    // Client-generated id that makes replayed submissions idempotent; unique
+    // per organization and station, not globally
+    submissionId: { type: String, default: null },
+    flags: { type: [String], default: [] },
+  },
+  { bufferCommands: false }
+);
+
+PriceChangeSchema.index({ stationId: 1, date: 1, changedAt: 1 });
+PriceChangeSchema.index({ stationId: 1, grade: 1, changedAt: -1 });
+PriceChangeSchema.index(
+  { orgId: 1, stationId: 1, submissionId: 1, grade: 1 },
+  { unique: true, partialFilterExpression: { submissionId: { $type: "string" } } }
+);
+
+PriceChangeSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "deleteOne", "deleteMany"],
+  function () {
+    throw new Error("PriceChange log is append-only");
+  }
+);
+
+const PriceChange = mongoose.model("PriceChange", PriceChangeSchema);
+
+// An admin's edit or void of one daily PriceHistory entry, kept with its
+// reason and the entry's prices at the time it was requested
+const PriceCorrectionSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    stationId: { type: String, required: true },
+    date: { type: String, required: true },
+    action: { type: String, enum: ["edit", "void"], required: true },
+    // { grade: corrected price } for edits
+    prices: { type: mongoose.Schema.Types.Mixed, default: null },
+    original: { type: mongoose.Schema.Types.Mixed, required: true },
+    reason: { type: String, required: true, trim: true, maxlength: 500 },
+    // "pending" only when the organization requires a second admin's approval
+    status: { type: String, enum: ["pending", "applied", "rejected"], required: true },
+    requestedBy: { type: String, required: true },
+    requestedByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    reviewedBy: { type: String, default: null },
+    reviewedByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    reviewedAt: { type: Date, default: null },
+    reviewNote: { type: String, default: null },
+    appliedAt: { type: Date, default: null },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+PriceCorrectionSchema.index({ orgId: 1, createdAt: -1 });
+PriceCorrectionSchema.index({ stationId: 1, date: 1, status: 1 });
+
+const PriceCorrection = mongoose.model("PriceCorrection", PriceCorrectionSchema);
+
+const StationSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    // Public station key, unique across organizations; PriceHistory.stationId
+    // references this, not _id
+    id: { type: String, required: true, unique: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    brand: { type: String, default: null, trim: true },
+    address: { type: String, default: "", trim: true },
+    lat: { type: Number, required: true, min: -90, max: 90 },
+    lng: { type: Number, required: true, min: -180, max: 180 },
+    active: { type: Boolean, default: true },
+    grades: {
+      type: [{ type: String, enum: FUEL_GRADES }],
+      default: () => [...FUEL_GRADES],
+    },
+    // Grades the station sells but is currently out of; reported without a price
+    unavailableGrades: {
+      type: [{ type: String, enum: FUEL_GRADES }],
+      default: [],
+    },
+    // IANA zone that defines the station's business day
+    timeZone: {
+      type: String,
+      default: () => DEFAULT_TIME_ZONE,
+      validate: { validator: isValidTimeZone, message: "Unknown time zone" },
+    },
+    // Zone PriceHistory/PriceChange dates are currently keyed in; null means
+    // the pre-time-zone UTC days and triggers a re-bucketing at startup
+    bucketedTimeZone: { type: String, default: null },
+    // Local "HH:MM" by which prices must be entered each day; null uses PRICE_DEADLINE
+    priceDeadline: { type: String, default: null, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+    // GeoJSON mirror of lat/lng for $geoNear; kept in sync on every write
+    location: {
+      type: { type: String, enum: ["Point"] },
+      coordinates: { type: [Number], default: undefined },
+    },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+StationSchema.index({ location: "2dsphere" });
+StationSchema.index({ orgId: 1, name: 1 });
+
+StationSchema.pre("validate", function () {
+  this.location = toGeoPoint(this);
+});
+
+const Station = mongoose.model("Station", StationSchema);
+
+const UserSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    // Unique within an organization
+    username: { type: String, required: true, lowercase: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    passwordHash: { type: String, required: true },
+    role: { type: String, enum: ["staff", "admin"], default: "staff" },
+    // Staff may only submit prices for these stations; admins ignore it.
+    stationIds: { type: [String], default: [] },
+    active: { type: Boolean, default: true },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+UserSchema.index({ orgId: 1, username: 1 }, { unique: true });
+
+const User = mongoose.model("User", UserSchema);
+
+const SessionSchema = new mongoose.Schema(
+  {
+    // SHA-256 of the bearer token; the raw token only ever lives on the client.
+    tokenHash: { type: String, required: true, unique: true },
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+    expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+const Session = mongoose.model("Session", SessionSchema);
+
+// A credential for a third-party integration (POS, fleet card, ...). Scoped
+// to read and/or write and to a subset of the organization's stations.
+const ApiKeySchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    name: { type: String, required: true, trim: true },
+    // Shown in listings to tell keys apart; the secret is never stored
+    prefix: { type: String, required: true },
+    keyHash: { type: String, required: true, unique: true },
+    scopes: {
+      type: [{ type: String, enum: ["read", "write"] }],
+      validate: (v) => v.length > 0,
+    },
+    // Empty means every station of the organization
+    stationIds: { type: [String], default: [] },
+    rateLimitPerMinute: { type: Number, min: 1, max: 10000, required: true },
+    active: { type: Boolean, default: true },
+    lastUsedAt: { type: Date, default: null },
+    createdBy: { type: String, required: true },
+    revokedAt: { type: Date, default: null },
+    revokedBy: { type: String, default: null },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+const ApiKey = mongoose.model("ApiKey", ApiKeySchema);
+
+// One request made with an API key, kept for API_LOG_RETENTION_DAYS
+const ApiRequestLogSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    keyId: { type: mongoose.Schema.Types.ObjectId, ref: "ApiKey", required: true },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+    status: { type: Number, required: true },
+    durationMs: { type: Number, required: true },
+    ip: { type: String, default: null },
+    at: { type: Date, required: true },
+  },
+  { bufferCommands: false }
+);
+
+ApiRequestLogSchema.index({ keyId: 1, at: -1 });
+ApiRequestLogSchema.index(
+  { at: 1 },
+  { expireAfterSeconds: (Number(process.env.API_LOG_RETENTION_DAYS) || 30) * 24 * 60 * 60 }
+);
+
+const ApiRequestLog = mongoose.model("ApiRequestLog", ApiRequestLogSchema);
+
+// A nearby rival station. links lists our stations within COMPETITOR_RADIUS_MILES
+// and is recomputed whenever either side moves.
+const CompetitorSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    name: { type: String, required: true, trim: true },
+    brand: { type: String, default: null, trim: true },
+    address: { type: String, default: "", trim: true },
+    lat: { type: Number, required: true, min: -90, max: 90 },
+    lng: { type: Number, required: true, min: -180, max: 180 },
+    active: { type: Boolean, default: true },
+    links: {
+      type: [{ _id: false, stationId: String, distance: Number }],
+      default: [],
+    },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+CompetitorSchema.index({ "links.stationId": 1 });
+
+const Competitor = mongoose.model("Competitor", CompetitorSchema);
+
+// One observation of a competitor's posted prices (any subset of grades)
+const CompetitorPriceSchema = new mongoose.Schema(
+  {
+    competitorId: { type: mongoose.Schema.Types.ObjectId, ref: "Competitor", required: true },
+    date: { type: String, required: true },
+    observedAt: { type: Date, required: true },
+    recordedBy: { type: String, required: true },
+    recordedByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    regular: { type: Number, default: null },
+    midgrade: { type: Number, default: null },
+    premium: { type: Number, default: null },
+    diesel: { type: Number, default: null },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+CompetitorPriceSchema.index({ competitorId: 1, date: 1, observedAt: 1 });
+
+const CompetitorPrice = mongoose.model("CompetitorPrice", CompetitorPriceSchema);
+
+// A price change set ahead of time for one or more stations. The scheduler
+// applies it once effectiveAt passes, as the user who scheduled it.
+const ScheduledPriceChangeSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    effectiveAt: { type: Date, required: true },
+    stationIds: { type: [String], required: true },
+    // Only the grades being changed are set; the rest stay null
+    regular: { type: Number, default: null },
+    midgrade: { type: Number, default: null },
+    premium: { type: Number, default: null },
+    diesel: { type: Number, default: null },
+    status: {
+      type: String,
+      enum: ["pending", "applied", "partial", "cancelled", "failed"],
+      default: "pending",
+    },
+    // Guardrail warnings confirmed at scheduling time, keyed by station then grade
+    flags: { type: mongoose.Schema.Types.Mixed, default: {} },
+    createdBy: { type: String, required: true },
+    createdByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    appliedAt: { type: Date, default: null },
+    // Stations deactivated or no longer selling a grade by the time it applied
+    skipped: { type: [String], default: [] },
+    // Per-station outcome: each station is recorded as soon as its prices are
+    // written, so a partly applied change shows which stations are live
+    appliedStationIds: { type: [String], default: [] },
+    failedStationIds: { type: [String], default: [] },
+    cancelledAt: { type: Date, default: null },
+    cancelledBy: { type: String, default: null },
+    error: { type: String, default: null },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+ScheduledPriceChangeSchema.index({ status: 1, effectiveAt: 1 });
+
+const ScheduledPriceChange = mongoose.model("ScheduledPriceChange", ScheduledPriceChangeSchema);
+
+// One raised alert and how each channel delivered it
+const AlertSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    kind: { type: String, enum: ["missed-deadline", "stale", "big-move", "test"], required: true },
+    stationId: { type: String, default: null },
+    // Each condition alerts once, e.g. "missed-deadline:1:2026-10-18"
+    key: { type: String, required: true, unique: true },
+    message: { type: String, required: true },
+    details: { type: mongoose.Schema.Types.Mixed, default: {} },
+    deliveries: {
+      type: [{ _id: false, channel: String, ok: Boolean, error: String, sentAt: Date }],
+      default: [],
+    },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+AlertSchema.index({ orgId: 1, createdAt: -1 });
+
+const Alert = mongoose.model("Alert", AlertSchema);
+
+// What we paid for fuel: a delivery (with gallons) or a wholesale/rack cost
+// quote (without). The latest entry on or before a day is that day's cost basis.
+const DeliverySchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    stationId: { type: String, required: true },
+    grade: { type: String, enum: FUEL_GRADES, required: true },
+    kind: { type: String, enum: ["delivery", "rack"], default: "delivery" },
+    // Station-local business day of deliveredAt
+    date: { type: String, required: true },
+    deliveredAt: { type: Date, required: true },
+    gallons: { type: Number, default: null, min: 0 },
+    costPerGallon: { type: Number, required: true, min: 0 },
+    supplier: { type: String, default: "", trim: true },
+    recordedBy: { type: String, required: true },
+    recordedByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+DeliverySchema.index({ stationId: 1, grade: 1, deliveredAt: -1 });
+
+const Delivery = mongoose.model("Delivery", DeliverySchema);
+
+// Gallons sold per station, grade and business day (optional; enables totals)
+const DailySalesSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    stationId: { type: String, required: true },
+    date: { type: String, required: true },
+    grade: { type: String, enum: FUEL_GRADES, required: true },
+    gallons: { type: Number, required: true, min: 0 },
+    updatedBy: { type: String, required: true },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+DailySalesSchema.index({ stationId: 1, date: 1, grade: 1 }, { unique: true });
+
+const DailySales = mongoose.model("DailySales", DailySalesSchema);
+
+// A recurring summary report; the scheduler generates one archived Report per
+// completed week or month
+const ReportScheduleSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    name: { type: String, required: true, trim: true },
+    period: { type: String, enum: ["weekly", "monthly"], required: true },
+    // Empty means every active station at generation time
+    stationIds: { type: [String], default: [] },
+    active: { type: Boolean, default: true },
+    nextRunAt: { type: Date, required: true },
+    lastRunAt: { type: Date, default: null },
+    lastError: { type: String, default: null },
+    createdBy: { type: String, required: true },
+    createdByUserId: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+ReportScheduleSchema.index({ active: 1, nextRunAt: 1 });
+
+const ReportSchedule = mongoose.model("ReportSchedule", ReportScheduleSchema);
+
+// A generated summary report, archived with both renderings so later
+// downloads match what was generated even if history is corrected
+const ReportSchema = new mongoose.Schema(
+  {
+    orgId: orgRef,
+    scheduleId: { type: mongoose.Schema.Types.ObjectId, ref: "ReportSchedule", default: null },
+    title: { type: String, required: true },
+    period: { type: String, enum: ["weekly", "monthly", "custom"], required: true },
+    from: { type: String, required: true }, // YYYY-MM-DD
+    to: { type: String, required: true },
+    summary: { type: mongoose.Schema.Types.Mixed, required: true },
+    html: { type: String, required: true },
+    pdf: { type: Buffer, required: true },
+    generatedBy: { type: String, required: true },
+  },
+  { timestamps: true, bufferCommands: false }
+);
+
+ReportSchema.index({ orgId: 1, createdAt: -1 });
+
+const Report = mongoose.model("Report", ReportSchema);
+
 function isDbReady() {
   return mongoose.connection.readyState === 1;
 }
 
 // ============================================================
-// 🌐 API ROUTES
+// 🏢 ORGANIZATIONS
+// Every request runs against one organization: the signed-in user's, or for
+// public routes the one named by ?org, the X-Org header or a subdomain of
+// ORG_BASE_DOMAIN (acme.fuelify.example -> "acme"), else the default one.
 // ============================================================
+const DEFAULT_ORG_SLUG = (process.env.DEFAULT_ORG_SLUG || "fuelify").toLowerCase();
+const ORG_BASE_DOMAIN = (process.env.ORG_BASE_DOMAIN || "").toLowerCase();
 
-app.get("/", (req, res) => {
-  res.json({
-    status: "Fuelify API",
-    mongodb: isDbReady() ? "Connected" : "Not connected",
-    stations: STATIONS.length,
-  });
-});
+// slug -> organization, so public routes still resolve while MongoDB is down
+const knownOrgs = new Map();
 
-// ✅ UPDATED: Returns Stations WITH Latest Prices
-app.get("/api/stations", async (req, res) => {
-  try {
-    // If DB is down, return basic info with zero prices
-    if (!isDbReady()) {
-      return res.json(STATIONS.map(s => ({
-        ...s,
-        prices: { regular: 0, midgrade: 0, premium: 0, diesel: 0 },
-        lastUpdated: "Offline"
-      })));
-    }
-
-    // Fetch latest prices for all stations in parallel
-    const stationsWithPrices = await Promise.all(
-      STATIONS.map(async (station) => {
-        // Find the absolute latest price entry (descending sort)
-        const latestPrice = await PriceHistory.findOne({ stationId: station.id })
-          .sort({ date: -1, time: -1 }) 
-          .lean();
+function isDefaultOrg(org) {
+  return org.slug === DEFAULT_ORG_SLUG;
+}
 
-        return {
-          ...station,
-          prices: {
-            regular: latestPrice?.regular || 0,
-            midgrade: latestPrice?.midgrade || 0,
-            premium: latestPrice?.premium || 0,
-            diesel: latestPrice?.diesel || 0,
-          },
-          lastUpdated: latestPrice?.time || "Never"
-        };
-      })
-    );
+// Public branding, safe to show before sign-in
+function toOrgDto(org) {
+  return {
+    slug: org.slug,
+    name: org.name,
+    logoUrl: org.logoUrl ?? null,
+    grades: org.grades,
+  };
+}
 
-    res.json(stationsWithPrices);
-  } catch (err) {
-    console.error("Station fetch error:", err);
-    res.status(500).json({ error: "Failed to fetch stations" });
+function toOrgSettingsDto(org) {
+  return {
+    ...toOrgDto(org),
+    alertEmailTo: org.alertEmailTo ?? null,
+    alertWebhookUrl: org.alertWebhookUrl ?? null,
+    requireCorrectionApproval: Boolean(org.requireCorrectionApproval),
+    timeZone: orgTimeZone(org),
+    active: org.active,
+  };
+}
+
+// The organization slug a request names explicitly, or null
+function requestedOrgSlug(req) {
+  const explicit = req.query.org || req.get("X-Org");
+  if (explicit) return String(explicit).trim().toLowerCase();
+  if (ORG_BASE_DOMAIN && req.hostname.endsWith(`.${ORG_BASE_DOMAIN}`)) {
+    return req.hostname.slice(0, -(ORG_BASE_DOMAIN.length + 1));
   }
-});
+  return null;
+}
 
-// Update Price (Admin Panel)
-app.post("/api/update-price", async (req, res) => {
-  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+async function findOrgBySlug(slug) {
+  if (!isDbReady()) return knownOrgs.get(slug) || null;
+  const org = await Organization.findOne({ slug, active: true }).lean();
+  if (org) knownOrgs.set(slug, org);
+  else knownOrgs.delete(slug);
+  return org;
+}
 
+// Attaches req.org for routes that can be reached without signing in
+async function resolveOrg(req, res, next) {
   try {
-    const { stationId, fuelType, price, updatedBy } = req.body;
-    const now = new Date();
-    const dateKey = now.toISOString().split("T")[0];
-
-    const filter = { stationId: String(stationId), date: dateKey };
-    const update = {
-      $set: {
-        time: now.toISOString(),
-        updatedBy: updatedBy || "Staff",
-        [fuelType]: parseFloat(price),
-      },
-    };
-
-    // Upsert: Update if exists for today, else create new
-    await PriceHistory.updateOne(filter, update, { upsert: true });
-
-    res.json({ success: true, dateKey, stationId: String(stationId) });
+    const org = await findOrgBySlug(requestedOrgSlug(req) || DEFAULT_ORG_SLUG);
+    if (!org) {
+      if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+      return res.status(404).json({ error: "Unknown organization" });
+    }
+    req.org = org;
+    next();
   } catch (err) {
-    console.error("Save error:", err);
-    res.status(500).json({ error: err.message });
+    console.error("Organization lookup error:", err);
+    res.status(500).json({ error: "Failed to resolve organization" });
   }
-});
+}
 
-// Admin Dashboard Data
-app.get("/api/admin/price-history", async (req, res) => {
-  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+function isHttpUrl(value) {
   try {
-    const data = await PriceHistory.find({})
-      .sort({ date: -1, time: -1 })
-      .limit(120)
-      .lean();
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
 
-    const historyByDate = {};
-    for (const doc of data) {
-      if (!historyByDate[doc.date]) historyByDate[doc.date] = {};
-      historyByDate[doc.date][doc.stationId] = [
-        {
-          time: doc.time,
-          updatedBy: doc.updatedBy,
-          prices: {
-            regular: doc.regular,
-            midgrade: doc.midgrade,
-            premium: doc.premium,
-            diesel: doc.diesel,
-          },
-        },
-      ];
+function orgTimeZone(org) {
+  return org.timeZone || DEFAULT_TIME_ZONE;
+}
+
+function readOrgInput(body, { partial = false } = {}) {
+  const input = {};
+  for (const field of ["slug", "name", "logoUrl", "grades", "alertEmailTo", "alertWebhookUrl", "timeZone"]) {
+    if (body[field] !== undefined) input[field] = body[field];
+  }
+  if (body.requireCorrectionApproval !== undefined) {
+    input.requireCorrectionApproval = Boolean(body.requireCorrectionApproval);
+  }
+  for (const field of ["logoUrl", "alertEmailTo", "alertWebhookUrl", "timeZone"]) {
+    if (input[field] === "") input[field] = null;
+  }
+  if (input.timeZone && !isValidTimeZone(input.timeZone)) throw new Error(`Unknown time zone: ${input.timeZone}`);
+
+  if (!partial && (!input.slug || !input.name)) throw new Error("slug and name are required");
+  if (input.logoUrl && !isHttpUrl(input.logoUrl)) throw new Error("logoUrl must be an http(s) URL");
+  if (input.alertWebhookUrl && !isHttpUrl(input.alertWebhookUrl)) {
+    throw new Error("alertWebhookUrl must be an http(s) URL");
+  }
+  if (input.grades !== undefined) {
+    if (!Array.isArray(input.grades) || input.grades.length === 0) {
+      throw new Error("grades must be a non-empty list");
     }
-    res.json({ stations: STATIONS, history: historyByDate });
-  } catch (err) {
-    res.status(500).json({ error: err.message });
+    const unknown = input.grades.filter((g) => !FUEL_GRADES.includes(g));
+    if (unknown.length) throw new Error(`Unknown fuel grade(s): ${unknown.join(", ")}`);
+    input.grades = FUEL_GRADES.filter((g) => input.grades.includes(g));
   }
-});
+  return input;
+}
 
-// Chart Data Endpoint
-app.get("/api/admin/chart-data/:stationId", async (req, res) => {
-  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
-  try {
-    const { stationId } = req.params;
-    const station = STATIONS.find((s) => s.id === stationId);
-    if (!station) return res.status(404).json({ error: "Station not found" });
+async function ensureDefaultOrganization() {
+  const org = await Organization.findOneAndUpdate(
+    { slug: DEFAULT_ORG_SLUG },
+    { $setOnInsert: { name: process.env.DEFAULT_ORG_NAME || "Fuelify" } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ).lean();
+  knownOrgs.set(org.slug, org);
+  return org;
+}
 
-    const data = await PriceHistory.find({ stationId })
-      .sort({ date: 1 })
-      .limit(30)
-      .lean();
+// Data written before organizations existed belongs to the default one.
+// Goes through the driver so the append-only PriceChange guard is skipped.
+async function backfillOrgIds(org) {
+  const models = [Station, User, PriceHistory, PriceChange, Competitor, ScheduledPriceChange, Alert, Delivery, DailySales];
+  for (const model of models) {
+    const { modifiedCount } = await model.collection.updateMany(
+      { orgId: { $exists: false } },
+      { $set: { orgId: org._id } }
+    );
+    if (modifiedCount) console.log(`🏢 Assigned ${modifiedCount} ${model.modelName} document(s) to "${org.slug}"`);
+  }
 
-    const chartData = data.map((doc) => ({
-      date: doc.date,
-      regular: doc.regular,
-      midgrade: doc.midgrade,
-      premium: doc.premium,
-      diesel: doc.diesel,
-    }));
+  // Usernames used to be globally unique; they are now unique per organization
+  const userIndexes = await User.collection.indexes().catch(() => []);
+  if (userIndexes.some((index) => index.name === "username_1")) {
+    await User.collection.dropIndex("username_1");
+  }
 
-    res.json({ station: station.name, data: chartData });
-  } catch (err) {
-    res.status(500).json({ error: err.message });
+  // Submission ids used to be globally unique; they are now unique per
+  // organization and station
+  const changeIndexes = await PriceChange.collection.indexes().catch(() => []);
+  if (changeIndexes.some((index) => index.name === "submissionId_1_grade_1")) {
+    await PriceChange.collection.dropIndex("submissionId_1_grade_1");
   }
-});
+}
 
 // ============================================================
-// 🚀 SERVER STARTUP
+// 📍 STATIONS
 // ============================================================
-async function startServer() {
-  const MONGODB_URI = process.env.MONGODB_URI;
-  if (!MONGODB_URI) {
-    console.error("❌ MONGODB_URI not set!");
-    process.exit(1);
+
+// Last station list read from MongoDB per organization id, served while the
+// DB is unreachable
+const knownStations = new Map();
+
+const METERS_PER_MILE = 1609.344;
+
+function toGeoPoint({ lat, lng }) {
+  return { type: "Point", coordinates: [lng, lat] };
+}
+
+function toStationDto(doc) {
+  return {
+    id: doc.id,
+    name: doc.name,
+    brand: doc.brand ?? null,
+    address: doc.address,
+    lat: doc.lat,
+    lng: doc.lng,
+    active: doc.active,
+    grades: doc.grades,
+    unavailableGrades: doc.unavailableGrades ?? [],
+    priceDeadline: doc.priceDeadline ?? null,
+    timeZone: doc.timeZone || DEFAULT_TIME_ZONE,
+  };
+}
+
+async function loadStations(orgId, { includeInactive = false } = {}) {
+  const filter = includeInactive ? { orgId } : { orgId, active: true };
+  const docs = await Station.find(filter).sort({ name: 1 }).lean();
+  const stations = docs.map(toStationDto);
+  if (!includeInactive) knownStations.set(String(orgId), stations);
+  return stations;
+}
+
+// One of the organization's stations by public id, or null. Every route that
+// takes a station id goes through this so ids from another tenant never match.
+async function findOrgStation(orgId, stationId, { activeOnly = false } = {}) {
+  const filter = { orgId, id: String(stationId ?? "") };
+  if (activeOnly) filter.active = true;
+  return Station.findOne(filter).lean();
+}
+
+// Picks the next free numeric id ("6" after "1".."5")
+async function nextStationId() {
+  const ids = await Station.distinct("id");
+  const max = ids.reduce((acc, id) => Math.max(acc, Number(id) || 0), 0);
+  return String(max + 1);
+}
+
+// Creates a station under the next free id. Two concurrent creates can pick
+// the same id; the loser's insert fails on the unique index and it retries
+// with a fresh id.
+async function createStation(fields, attempts = 5) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await Station.create({ ...fields, id: await nextStationId() });
+    } catch (err) {
+      if (err.code !== 11000 || !err.keyPattern?.id || attempt >= attempts) throw err;
+    }
   }
+}
 
-  try {
-    await mongoose.connect(MONGODB_URI, {
-      serverSelectionTimeoutMS: 5000,
-      family: 4,
-    });
-    console.log("🟢 MongoDB Connected");
-    console.log("🟢 DB Ready state: " + mongoose.connection.readyState);
+// Latest known price per station and grade. Built for every station in one
+// index-backed aggregation on first use, then kept current on write: each
+// price write recomputes only the stations it touched. The last result stays
+// in place when a query fails so it can still be served (as stale) while
+// MongoDB is down. A single server instance is assumed, as for live events.
+let latestPricesCache = { prices: new Map(), loaded: false };
+// Shared by concurrent callers while the full build runs
+let latestPricesLoading = null;
+// Stations written while the full build was in flight
+const latestPricesPending = new Set();
 
-    const PORT = process.env.PORT || 5000;
-    app.listen(PORT, () => console.log(`🚀 Server running on ${PORT}`));
+// One station's entry: each grade is its newest non-null, non-voided snapshot
+// value, so a day that only changed one grade doesn't blank the others
+async function stationLatestPrices(stationId) {
+  const [latest, modified, ...prices] = await Promise.all([
+    PriceHistory.findOne({ stationId, voided: { $ne: true } }).sort({ date: -1, time: -1 }).select({ time: 1 }).lean(),
+    PriceHistory.findOne({ stationId, voided: { $ne: true } }).sort({ updatedAt: -1 }).select({ updatedAt: 1 }).lean(),
+    ...FUEL_GRADES.map((grade) => latestGradePrice(stationId, grade)),
+  ]);
+  if (!latest) return null;
+  return {
+    prices: Object.fromEntries(FUEL_GRADES.map((grade, i) => [grade, prices[i]])),
+    lastUpdated: latest.time,
+    updatedAt: modified?.updatedAt ?? null,
+  };
+}
 
+// Called after every price write with the stations it touched
+async function invalidateLatestPrices(stationIds) {
+  if (latestPricesLoading) {
+    for (const id of stationIds) latestPricesPending.add(id);
+    return;
+  }
+  if (!latestPricesCache.loaded) return;
+  try {
+    for (const id of new Set(stationIds)) {
+      const entry = await stationLatestPrices(id);
+      if (entry) latestPricesCache.prices.set(id, entry);
+      else latestPricesCache.prices.delete(id);
+    }
   } catch (err) {
-    console.error("🔴 Failed to connect/start:", err);
-    process.exit(1);
+    // Rebuilt in full on next read; the old values remain the stale fallback
+    console.error("Latest price refresh failed:", err.message);
+    latestPricesCache.loaded = false;
+  }
+}
+
+async function buildLatestPrices() {
+  const gradeFields = Object.fromEntries(
+    FUEL_GRADES.map((grade) => [
+      grade,
+      { $max: { $cond: [{ $isNumber: `$${grade}` }, { date: "$date", time: "$time", price: `$${grade}` }, null] } },
+    ])
+  );
+  // The sort walks the { stationId, date, time } index, so $first is each
+  // station's newest entry without an in-memory sort
+  const rows = await PriceHistory.aggregate([
+    { $match: { voided: { $ne: true } } },
+    { $sort: { stationId: 1, date: -1, time: -1 } },
+    {
+      $group: {
+        _id: "$stationId",
+        lastUpdated: { $first: "$time" },
+        updatedAt: { $max: "$updatedAt" },
+        ...gradeFields,
+      },
+    },
+  ]);
+
+  return new Map(
+    rows.map((row) => [
+      row._id,
+      {
+        prices: Object.fromEntries(FUEL_GRADES.map((grade) => [grade, row[grade]?.price ?? null])),
+        lastUpdated: row.lastUpdated ?? null,
+        updatedAt: row.updatedAt ?? null,
+      },
+    ])
+  );
+}
+
+// stationId -> { prices: { grade: price | null }, lastUpdated, updatedAt }
+async function loadLatestPrices() {
+  if (latestPricesCache.loaded) return latestPricesCache.prices;
+  if (!latestPricesLoading) {
+    latestPricesLoading = (async () => {
+      try {
+        const prices = await buildLatestPrices();
+        latestPricesCache = { prices, loaded: true };
+      } finally {
+        latestPricesLoading = null;
+      }
+      const pending = [...latestPricesPending];
+      latestPricesPending.clear();
+      if (pending.length) await invalidateLatestPrices(pending);
+      return latestPricesCache.prices;
+    })();
+  }
+  return latestPricesLoading;
+}
+
+// Station DTO plus prices; out-of-stock or never-priced grades are null, not 0
+function withLatestPrices(station, latest) {
+  const prices = {};
+  for (const grade of FUEL_GRADES) {
+    prices[grade] = station.unavailableGrades?.includes(grade) ? null : latest?.prices[grade] ?? null;
+  }
+  return { ...station, prices, lastUpdated: latest?.lastUpdated || "Never" };
+}
+
+async function attachLatestPrices(stations) {
+  const latest = await loadLatestPrices();
+  return stations.map((station) => withLatestPrices(station, latest.get(station.id)));
+}
+
+// Last known stations and prices, for when MongoDB can't be queried
+function staleStations(orgId) {
+  return (knownStations.get(String(orgId)) || []).map((station) => ({
+    ...withLatestPrices(station, latestPricesCache.prices.get(station.id)),
+    stale: true,
+  }));
+}
+
+// Resolves ?lat&lng, ?zip or ?address into a search origin
+function resolveSearchOrigin({ lat, lng, zip, address }) {
+  if (lat !== undefined && lng !== undefined) {
+    const point = { lat: Number(lat), lng: Number(lng) };
+    if (!Number.isFinite(point.lat) || Math.abs(point.lat) > 90) return null;
+    if (!Number.isFinite(point.lng) || Math.abs(point.lng) > 180) return null;
+    return { ...point, label: `${point.lat}, ${point.lng}` };
+  }
+
+  let entry = null;
+  if (zip) {
+    entry = GAZETTEER.find((g) => g.zip === String(zip).trim().slice(0, 5));
+  } else if (address) {
+    const text = String(address).toLowerCase();
+    entry =
+      GAZETTEER.find((g) => text.includes(g.zip)) ||
+      GAZETTEER.find((g) => text.includes(g.city.toLowerCase()));
   }
+  return entry ? { lat: entry.lat, lng: entry.lng, label: `${entry.city}, ${entry.state} ${entry.zip}` } : null;
 }
 
-startServer();
+async function seedStations(org) {
+  if (await Station.exists({})) return;
+  await Station.insertMany(SEED_STATIONS.map((s) => ({ ...s, orgId: org._id, active: true })));
+  console.log(`🟢 Seeded ${SEED_STATIONS.length} stations`);
+}
+
+// Fills in the GeoJSON location for stations saved before it existed
+async function backfillStationLocations() {
+  const missing = await Station.find({ "location.coordinates": { $exists: false } }).lean();
+  for (const station of missing) {
+    await Station.updateOne({ _id: station._id }, { location: toGeoPoint(station) });
+  }
+}
+
+// Grades must be ones the organization offers; new stations default to all of them
+function readStationInput(body, org, { partial = false } = {}) {
+  const input = {};
+  const fields = ["name", "brand", "address", "lat", "lng", "active", "grades", "priceDeadline", "timeZone"];
+  for (const field of fields) {
+    if (body[field] !== undefined) input[field] = body[field];
+  }
+  if (input.lat !== undefined) input.lat = Number(input.lat);
+  if (input.lng !== undefined) input.lng = Number(input.lng);
+  if (input.brand === "") input.brand = null;
+  if (input.priceDeadline === "") input.priceDeadline = null;
+  if (input.timeZone === "") delete input.timeZone;
+  if (input.timeZone !== undefined && !isValidTimeZone(input.timeZone)) {
+    throw new Error(`Unknown time zone: ${input.timeZone}`);
+  }
+
+  if (!partial && (!input.name || input.lat === undefined || input.lng === undefined)) {
+    throw new Error("name, lat and lng are required");
+  }
+  if (input.grades !== undefined) {
+    if (!Array.isArray(input.grades) || input.grades.length === 0) {
+      throw new Error("grades must be a non-empty list");
+    }
+    const unknown = input.grades.filter((g) => !FUEL_GRADES.includes(g));
+    if (unknown.length) throw new Error(`Unknown fuel grade(s): ${unknown.join(", ")}`);
+    const notOffered = input.grades.filter((g) => !org.grades.includes(g));
+    if (notOffered.length) throw new Error(`Not offered by ${org.name}: ${notOffered.join(", ")}`);
+  } else if (!partial) {
+    input.grades = [...org.grades];
+  }
+  return input;
+}
+
+// ============================================================
+// 🕒 TIME ZONES
+// Each station's business day runs midnight to midnight in its own time
+// zone; PriceHistory.date and PriceChange.date are keyed by that local day.
+// ============================================================
+
+const DEFAULT_TIME_ZONE = process.env.STATION_TIME_ZONE || "America/New_York";
+
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// { date: "YYYY-MM-DD", time: "HH:MM" } of an instant in a time zone
+function zonedParts(date, timeZone) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, p.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// The instant a local wall-clock "HH:MM[:SS]" occurs on a date in a time
+// zone. The offset is re-read at the first guess so times near a DST switch
+// land right.
+function zonedInstant(dateKey, clock, timeZone) {
+  const wall = Date.parse(`${dateKey}T${clock.length === 5 ? `${clock}:00` : clock}Z`);
+  const offsetAt = (t) => {
+    const minute = Math.floor(t / 60000) * 60000;
+    const { date, time } = zonedParts(new Date(minute), timeZone);
+    return Date.parse(`${date}T${time}:00Z`) - minute;
+  };
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+}
+
+function zonedStartOfDay(dateKey, timeZone) {
+  return zonedInstant(dateKey, "00:00", timeZone);
+}
+
+// YYYY-MM-DD of the station-local business day containing `date`
+function localDateKey(date, timeZone) {
+  return zonedParts(date, timeZone).date;
+}
+
+async function stationTimeZone(stationId) {
+  const station = await Station.findOne({ id: stationId }).select("timeZone").lean();
+  return station?.timeZone || DEFAULT_TIME_ZONE;
+}
+
+// Moves a station's change log and derived snapshots onto its current time
+// zone's business days, then records that zone in bucketedTimeZone. Safe to
+// re-run; only entries whose local day differs are touched.
+async function rebucketStationHistory(station) {
+  const timeZone = station.timeZone || DEFAULT_TIME_ZONE;
+  const changes = await PriceChange.find({ stationId: station.id }).select({ date: 1, changedAt: 1 }).lean();
+
+  const ops = [];
+  const affected = new Set();
+  const loggedDays = new Set();
+  // Old day -> the days its changes now fall on
+  const moves = new Map();
+  for (const change of changes) {
+    const date = localDateKey(change.changedAt, timeZone);
+    loggedDays.add(date);
+    if (date === change.date) continue;
+    ops.push({ updateOne: { filter: { _id: change._id }, update: { $set: { date } } } });
+    affected.add(change.date);
+    affected.add(date);
+    if (!moves.has(change.date)) moves.set(change.date, new Set());
+    moves.get(change.date).add(date);
+  }
+
+  // Corrections live only on the snapshots about to be rebuilt, so carry them
+  // over: onto the same day if it still has changes, else onto the one day
+  // all of its changes moved to
+  const corrections = await PriceHistory.find({
+    stationId: station.id,
+    date: { $in: [...affected] },
+    source: { $ne: "import" },
+    correctedAt: { $ne: null },
+  }).lean();
+  const carried = new Map();
+  for (const doc of corrections) {
+    const targets = moves.get(doc.date);
+    const date = loggedDays.has(doc.date) ? doc.date : targets?.size === 1 ? [...targets][0] : null;
+    if (!date || carried.has(date)) {
+      console.warn(`🕒 Dropping correction on ${station.id} ${doc.date}: its changes were split across days`);
+      continue;
+    }
+    carried.set(date, doc);
+  }
+
+  // A deliberate one-off correction, so it goes through the driver to skip
+  // the append-only guard on the model
+  if (ops.length) await PriceChange.collection.bulkWrite(ops);
+
+  // App snapshots are pure derivations of the log plus any correction:
+  // rebuild each touched day, seeding carried corrections first so
+  // refreshDailySnapshot keeps them
+  for (const date of affected) {
+    await PriceHistory.deleteMany({ stationId: station.id, date, source: { $ne: "import" } });
+  }
+  for (const [date, doc] of carried) {
+    const $set = {
+      orgId: doc.orgId,
+      voided: doc.voided,
+      correctedGrades: doc.correctedGrades,
+      original: doc.original,
+      correctedAt: doc.correctedAt,
+      correctionReason: doc.correctionReason,
+    };
+    for (const grade of doc.correctedGrades || []) $set[grade] = doc[grade];
+    await upsertDailySnapshot(station.id, date, { $set });
+    if (date !== doc.date) {
+      await PriceCorrection.updateMany(
+        { stationId: station.id, date: doc.date, status: { $ne: "rejected" } },
+        { date }
+      );
+    }
+  }
+  for (const date of affected) await refreshDailySnapshot(station.id, date);
+
+  // Snapshots written before the change log existed are re-keyed by their own
+  // time, unless that day already has a snapshot. Imports keep their CSV date.
+  const loggedDates = new Set(await PriceChange.distinct("date", { stationId: station.id }));
+  const legacy = await PriceHistory.find({ stationId: station.id, source: { $ne: "import" } })
+    .select({ date: 1, time: 1 })
+    .lean();
+  const taken = new Set(await PriceHistory.distinct("date", { stationId: station.id }));
+  for (const doc of legacy) {
+    if (loggedDates.has(doc.date)) continue;
+    const date = localDateKey(new Date(doc.time), timeZone);
+    if (date === doc.date || taken.has(date)) continue;
+    await PriceHistory.updateOne({ _id: doc._id }, { date });
+    taken.delete(doc.date);
+    taken.add(date);
+  }
+
+  await invalidateLatestPrices([station.id]);
+  await Station.updateOne({ _id: station._id }, { timeZone, bucketedTimeZone: timeZone });
+  if (ops.length) console.log(`🕒 Re-bucketed ${ops.length} price change(s) for station ${station.id} into ${timeZone}`);
+}
+
+// Migrates stations whose history is still keyed by UTC days (or by a zone
+// they have since moved away from)
+async function rebucketPriceHistory() {
+  const stations = await Station.find({}).lean();
+  for (const station of stations) {
+    if (station.bucketedTimeZone && station.bucketedTimeZone === (station.timeZone || DEFAULT_TIME_ZONE)) continue;
+    await rebucketStationHistory(station);
+  }
+}
+
+// ============================================================
+// 📜 PRICE CHANGE LOG
+// ============================================================
+
+// Most recent effective price for a grade: the latest daily snapshot that
+// has one, so admin corrections count and voided days are skipped. Snapshots
+// are derived from the change log, and older ones predate it.
+async function latestGradePrice(stationId, grade) {
+  const snapshot = await PriceHistory.findOne({ stationId, [grade]: { $ne: null }, voided: { $ne: true } })
+    .sort({ date: -1, time: -1 })
+    .lean();
+  return snapshot ? snapshot[grade] : null;
+}
+
+// Shape of one daily snapshot as served to the admin dashboard
+function toHistoryEntry(doc) {
+  return {
+    time: doc.time,
+    updatedBy: doc.updatedBy,
+    changeCount: doc.changeCount || 0,
+    flags: doc.flags || [],
+    prices: {
+      regular: doc.regular,
+      midgrade: doc.midgrade,
+      premium: doc.premium,
+      diesel: doc.diesel,
+    },
+    voided: Boolean(doc.voided),
+    corrected: doc.correctedGrades || [],
+    original: doc.original || null,
+    correctionReason: doc.voided || doc.correctedGrades?.length ? doc.correctionReason ?? null : null,
+  };
+}
+
+// Writes one day's snapshot, creating it if needed. Two writers creating the
+// same day race on the unique { stationId, date } index; the loser's insert
+// fails with a duplicate key and it retries as a plain update.
+async function upsertDailySnapshot(stationId, date, update) {
+  try {
+    return await PriceHistory.findOneAndUpdate({ stationId, date }, update, { upsert: true, new: true }).lean();
+  } catch (err) {
+    if (err.code !== 11000) throw err;
+    return PriceHistory.findOneAndUpdate({ stationId, date }, update, { new: true }).lean();
+  }
+}
+
+// Recomputes the daily PriceHistory snapshot from that day's change log.
+// Grades without a logged change that day keep their existing value, and
+// corrected grades keep their corrected price until a newer change arrives.
+async function refreshDailySnapshot(stationId, date) {
+  const changes = await PriceChange.find({ stationId, date }).sort({ changedAt: 1 }).lean();
+  if (!changes.length) return null;
+
+  const existing = await PriceHistory.findOne({ stationId, date })
+    .select({ correctedAt: 1, correctedGrades: 1, original: 1 })
+    .lean();
+  const correctedAt = existing?.correctedAt;
+  const superseding = correctedAt ? changes.filter((c) => (c.receivedAt || c.changedAt) > correctedAt) : [];
+  const corrected = (existing?.correctedGrades || []).filter((g) => !superseding.some((c) => c.grade === g));
+
+  const last = changes[changes.length - 1];
+  const $set = {
+    orgId: last.orgId,
+    time: last.changedAt.toISOString(),
+    updatedBy: last.updatedBy,
+    updatedByUserId: last.updatedByUserId,
+    changeCount: changes.length,
+  };
+  // Only the effective (latest) change per grade contributes flags
+  const flagsByGrade = {};
+  for (const change of changes) {
+    if (corrected.includes(change.grade)) continue;
+    $set[change.grade] = change.newPrice;
+    flagsByGrade[change.grade] = change.flags.map((f) => `${change.grade}: ${f}`);
+  }
+  $set.flags = Object.values(flagsByGrade).flat();
+  if (correctedAt) {
+    $set.correctedGrades = corrected;
+    $set.original = corrected.length
+      ? Object.fromEntries(corrected.map((g) => [g, existing.original?.[g] ?? null]))
+      : null;
+    if (superseding.length) $set.voided = false;
+  }
+
+  const snapshot = await upsertDailySnapshot(stationId, date, { $set });
+  await invalidateLatestPrices([stationId]);
+  return snapshot;
+}
+
+// Appends one change per grade in a single insert, then refreshes the snapshot.
+// Callers must validate first so the insert cannot fail half-way.
+async function recordPriceChanges(
+  stationId,
+  values,
+  user,
+  { now = new Date(), flags = {}, submissionId = null } = {}
+) {
+  const station = await Station.findOne({ id: stationId }).select({ orgId: 1, timeZone: 1 }).lean();
+  const dateKey = localDateKey(now, station.timeZone || DEFAULT_TIME_ZONE);
+  const receivedAt = new Date();
+  const grades = Object.keys(values);
+  const oldPrices = await Promise.all(grades.map((g) => latestGradePrice(stationId, g)));
+
+  await PriceChange.insertMany(
+    grades.map((grade, i) => ({
+      orgId: station.orgId,
+      stationId,
+      date: dateKey,
+      grade,
+      oldPrice: oldPrices[i],
+      newPrice: values[grade],
+      updatedBy: user.name,
+      updatedByUserId: user._id,
+      changedAt: now,
+      receivedAt,
+      submissionId,
+      flags: flags[grade] || [],
+    }))
+  );
+  const snapshot = await refreshDailySnapshot(stationId, dateKey);
+
+  publishPriceEvent(station.orgId, "price-change", { stationId, date: dateKey, entry: toHistoryEntry(snapshot) });
+  return dateKey;
+}
+
+// ============================================================
+// 📡 LIVE EVENTS
+// In-process fan-out to Server-Sent Events clients. A single server instance
+// is assumed; multiple instances would need a shared pub/sub. Every event is
+// tagged with its organization and only streamed to that tenant's clients.
+// ============================================================
+const priceEvents = new EventEmitter();
+priceEvents.setMaxListeners(0);
+
+const SSE_HEARTBEAT_MS = 25 * 1000;
+
+function publishPriceEvent(orgId, type, payload) {
+  priceEvents.emit("event", { orgId: String(orgId), type, payload });
+}
+
+// ============================================================
+// ✅ PRICE VALIDATION
+// ============================================================
+const PRICE_MIN = 0.5;
+const PRICE_MAX = 15;
+
+// Returns an error message for a single submitted price, or null if valid.
+// Posted prices use 9/10-cent pricing, so exactly three decimals ending in 9.
+function validatePrice(raw) {
+  const text = String(raw ?? "").trim();
+  if (!text) return "Price is required";
+  if (!/^\d+(\.\d+)?$/.test(text)) return "Price must be a number";
+
+  const value = Number(text);
+  if (!Number.isFinite(value)) return "Price must be a number";
+  if (value < PRICE_MIN || value > PRICE_MAX) {
+    return `Price must be between $${PRICE_MIN.toFixed(2)} and $${PRICE_MAX.toFixed(2)}`;
+  }
+  if (!/^\d+\.\d{2}9$/.test(text)) return "Price must end in 9/10 of a cent (e.g. 3.299)";
+  return null;
+}
+
+// Validates a { grade: price } map against one of the organization's stations.
+// With requireAll every grade the station sells must be present.
+async function validatePriceSubmission(orgId, stationId, prices, { requireAll = true } = {}) {
+  const fieldErrors = {};
+  const values = {};
+
+  const station = await findOrgStation(orgId, stationId, { activeOnly: true });
+  if (!station) {
+    fieldErrors.stationId = "Unknown station";
+    return { station: null, values, fieldErrors };
+  }
+
+  if (!prices || typeof prices !== "object" || Array.isArray(prices)) {
+    fieldErrors.prices = "Prices must be an object keyed by fuel grade";
+    return { station, values, fieldErrors };
+  }
+
+  for (const grade of Object.keys(prices)) {
+    if (!FUEL_GRADES.includes(grade)) {
+      fieldErrors[grade] = "Unknown fuel grade";
+    } else if (!station.grades.includes(grade)) {
+      fieldErrors[grade] = "This station does not sell this grade";
+    }
+  }
+
+  for (const grade of station.grades) {
+    const outOfStock = station.unavailableGrades?.includes(grade);
+    if (prices[grade] === undefined) {
+      if (requireAll && !outOfStock) fieldErrors[grade] = "Price is required";
+      continue;
+    }
+    if (outOfStock) {
+      fieldErrors[grade] = "This grade is marked out of stock";
+      continue;
+    }
+    const error = validatePrice(prices[grade]);
+    if (error) fieldErrors[grade] = error;
+    else values[grade] = Number(prices[grade]);
+  }
+
+  if (!Object.keys(values).length && !Object.keys(fieldErrors).length) {
+    fieldErrors.prices = "No prices submitted";
+  }
+
+  return { station, values, fieldErrors };
+}
+
+// ============================================================
+// 📶 OFFLINE SUBMISSIONS
+// Queued clients replay with their original capture time and a submission id.
+// ============================================================
+const MAX_CAPTURE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Returns { capturedAt } or { error } for an optional client capture timestamp
+function readCaptureTime(raw) {
+  if (raw === undefined || raw === null) return { capturedAt: new Date() };
+
+  const capturedAt = new Date(raw);
+  if (Number.isNaN(capturedAt.getTime())) return { error: "capturedAt must be an ISO timestamp" };
+
+  const age = Date.now() - capturedAt.getTime();
+  if (age < -MAX_CLOCK_SKEW_MS) return { error: "capturedAt is in the future" };
+  if (age > MAX_CAPTURE_AGE_MS) return { error: "capturedAt is more than 7 days old" };
+  return { capturedAt };
+}
+
+function isValidSubmissionId(id) {
+  return typeof id === "string" && /^[A-Za-z0-9-]{8,64}$/.test(id);
+}
+
+// ============================================================
+// 🚨 ANOMALY GUARDRAILS
+// Suspicious (but well-formed) prices are not rejected outright; the
+// submitter must resend with `confirm: true` and the entry is flagged.
+// ============================================================
+const ANOMALY_CONFIG = {
+  lookbackDays: Number(process.env.ANOMALY_LOOKBACK_DAYS) || 14,
+  maxDailyChangePct: Number(process.env.ANOMALY_MAX_DAILY_CHANGE_PCT) || 10,
+  maxAverageDeviationPct: Number(process.env.ANOMALY_MAX_AVERAGE_DEVIATION_PCT) || 20,
+};
+
+const ORDERED_GRADES = ["regular", "midgrade", "premium"];
+
+function pctChange(from, to) {
+  return ((to - from) / from) * 100;
+}
+
+// Returns { grade: [warning, ...] } for every grade that looks out of bounds
+async function detectPriceAnomalies(stationId, values, now = new Date()) {
+  const today = localDateKey(now, await stationTimeZone(stationId));
+  const history = await PriceHistory.find({ stationId, date: { $lt: today }, voided: { $ne: true } })
+    .sort({ date: -1 })
+    .limit(ANOMALY_CONFIG.lookbackDays)
+    .lean();
+
+  const warnings = {};
+  const warn = (grade, message) => {
+    (warnings[grade] ||= []).push(message);
+  };
+
+  for (const [grade, price] of Object.entries(values)) {
+    const past = history.map((doc) => doc[grade]).filter((p) => typeof p === "number" && p > 0);
+    if (!past.length) continue;
+
+    const previous = past[0];
+    const dayChange = pctChange(previous, price);
+    if (Math.abs(dayChange) > ANOMALY_CONFIG.maxDailyChangePct) {
+      warn(grade, `${Math.abs(dayChange).toFixed(1)}% ${dayChange > 0 ? "above" : "below"} previous day ($${previous.toFixed(3)})`);
+    }
+
+    const average = past.reduce((sum, p) => sum + p, 0) / past.length;
+    const deviation = pctChange(average, price);
+    if (Math.abs(deviation) > ANOMALY_CONFIG.maxAverageDeviationPct) {
+      warn(grade, `${Math.abs(deviation).toFixed(1)}% ${deviation > 0 ? "above" : "below"} ${past.length}-day average ($${average.toFixed(3)})`);
+    }
+  }
+
+  for (const [grade, price] of Object.entries(values)) {
+    const cost = await latestCost(stationId, grade);
+    if (cost !== null && price < cost) warn(grade, `below cost basis ($${cost.toFixed(4)}/gal)`);
+  }
+
+  // Grades missing from this submission are compared at their current price
+  const effective = {};
+  for (const grade of ORDERED_GRADES) {
+    effective[grade] = values[grade] ?? (await latestGradePrice(stationId, grade));
+  }
+  // Each priced grade is compared with the next priced one, so a station
+  // without midgrade still has premium checked against regular
+  const priced = ORDERED_GRADES.filter((grade) => effective[grade] != null);
+  for (let i = 1; i < priced.length; i++) {
+    const lower = priced[i - 1];
+    const higher = priced[i];
+    if (values[lower] === undefined && values[higher] === undefined) continue;
+    if (effective[higher] < effective[lower]) {
+      warn(values[higher] !== undefined ? higher : lower, `${higher} is priced below ${lower}`);
+    }
+  }
+
+  return warnings;
+}
+
+// ============================================================
+// ✏️ PRICE CORRECTIONS
+// Admins edit grades of, or void, one station's daily entry. The change log
+// stays untouched; the correction is written onto the PriceHistory snapshot
+// along with the prior prices. Organizations with requireCorrectionApproval
+// hold corrections as pending until a different admin approves them.
+// ============================================================
+const CORRECTION_ACTIONS = ["edit", "void"];
+const MAX_CORRECTION_REASON = 500;
+
+function toCorrectionDto(doc) {
+  return {
+    id: String(doc._id),
+    stationId: doc.stationId,
+    date: doc.date,
+    action: doc.action,
+    prices: doc.prices,
+    original: doc.original,
+    reason: doc.reason,
+    status: doc.status,
+    requestedBy: doc.requestedBy,
+    createdAt: doc.createdAt,
+    reviewedBy: doc.reviewedBy,
+    reviewedAt: doc.reviewedAt,
+    reviewNote: doc.reviewNote,
+    appliedAt: doc.appliedAt,
+  };
+}
+
+function snapshotPrices(doc) {
+  return Object.fromEntries(FUEL_GRADES.map((g) => [g, doc[g] ?? null]));
+}
+
+// Whether the correction can still be applied to the entry as it is now
+function correctionConflict(snapshot) {
+  if (!snapshot) return "No price entry for this station and date";
+  if (snapshot.voided) return "This entry is already voided";
+  return null;
+}
+
+// A pending correction was reviewed against the prices it recorded as
+// original; a submission or correction since then makes it stale
+function correctionOutdated(correction, snapshot) {
+  const current = snapshotPrices(snapshot);
+  const changed = FUEL_GRADES.some((grade) => (correction.original?.[grade] ?? null) !== current[grade]);
+  return changed ? "The entry changed after this correction was requested; reject it and request a new one" : null;
+}
+
+// Validates { stationId, date, action, prices?, reason } against the entry it
+// targets. Returns the snapshot and the grades whose price actually changes.
+async function validateCorrection(orgId, body) {
+  const fieldErrors = {};
+  const { stationId, date, action, prices } = body;
+  const reason = String(body.reason ?? "").trim();
+
+  if (!CORRECTION_ACTIONS.includes(action)) fieldErrors.action = "action must be edit or void";
+  if (!reason) fieldErrors.reason = "A reason is required";
+  else if (reason.length > MAX_CORRECTION_REASON) {
+    fieldErrors.reason = `Reason must be at most ${MAX_CORRECTION_REASON} characters`;
+  }
+
+  const station = await findOrgStation(orgId, stationId);
+  if (!station) {
+    fieldErrors.stationId = "Unknown station";
+    return { fieldErrors };
+  }
+  if (!parseDateKey(String(date ?? ""))) {
+    fieldErrors.date = "date must be YYYY-MM-DD";
+    return { fieldErrors };
+  }
+
+  const snapshot = await PriceHistory.findOne({ stationId: station.id, date }).lean();
+  const conflict = correctionConflict(snapshot);
+  if (conflict) {
+    fieldErrors.date = conflict;
+    return { fieldErrors };
+  }
+
+  const values = {};
+  if (action === "edit") {
+    if (!prices || typeof prices !== "object" || Array.isArray(prices)) {
+      fieldErrors.prices = "Prices must be an object keyed by fuel grade";
+    } else {
+      for (const [grade, raw] of Object.entries(prices)) {
+        if (!FUEL_GRADES.includes(grade)) fieldErrors[grade] = "Unknown fuel grade";
+        else if (!station.grades.includes(grade) && typeof snapshot[grade] !== "number") {
+          fieldErrors[grade] = "This station does not sell this grade";
+        } else if (validatePrice(raw)) fieldErrors[grade] = validatePrice(raw);
+        else if (Number(raw) !== snapshot[grade]) values[grade] = Number(raw);
+      }
+      if (!Object.keys(values).length && !Object.keys(fieldErrors).length) {
+        fieldErrors.prices = "No price differs from the entry";
+      }
+    }
+  }
+
+  return { station, snapshot, values, reason, fieldErrors };
+}
+
+// Writes an applied correction onto the day's snapshot and pushes the
+// updated entry to live dashboards
+async function applyPriceCorrection(correction, now = new Date()) {
+  const { stationId, date } = correction;
+  const snapshot = await PriceHistory.findOne({ stationId, date }).lean();
+  const conflict = correctionConflict(snapshot);
+  if (conflict) throw new Error(conflict);
+
+  const $set = { correctedAt: now, correctionReason: correction.reason };
+  if (correction.action === "void") {
+    $set.voided = true;
+  } else {
+    const grades = Object.keys(correction.prices);
+    const original = { ...(snapshot.original || {}) };
+    for (const grade of grades) {
+      if (!(grade in original)) original[grade] = snapshot[grade];
+      $set[grade] = correction.prices[grade];
+    }
+    $set.original = original;
+    $set.correctedGrades = [...new Set([...(snapshot.correctedGrades || []), ...grades])];
+    // Guardrail warnings about the wrong price no longer apply
+    $set.flags = (snapshot.flags || []).filter((f) => !grades.some((g) => f.startsWith(`${g}: `)));
+  }
+
+  const updated = await PriceHistory.findByIdAndUpdate(snapshot._id, { $set }, { new: true }).lean();
+  await invalidateLatestPrices([stationId]);
+  publishPriceEvent(snapshot.orgId, "price-change", { stationId, date, entry: toHistoryEntry(updated) });
+  return updated;
+}
+
+// ============================================================
+// 📈 CHART BUCKETING
+// ============================================================
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CHART_GRANULARITIES = ["day", "week", "month"];
+const MAX_CHART_BUCKETS = 1000;
+
+function toDateKey(date) {
+  return date.toISOString().split("T")[0];
+}
+
+// Parses a strict YYYY-MM-DD key into a UTC midnight Date, or null
+function parseDateKey(key) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(key))) return null;
+  const date = new Date(`${key}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && toDateKey(date) === key ? date : null;
+}
+
+// Weeks are keyed by their Monday, months by YYYY-MM
+function bucketKey(dateKey, granularity) {
+  if (granularity === "month") return dateKey.slice(0, 7);
+  if (granularity === "week") {
+    const date = parseDateKey(dateKey);
+    const sinceMonday = (date.getUTCDay() + 6) % 7;
+    return toDateKey(new Date(date.getTime() - sinceMonday * DAY_MS));
+  }
+  return dateKey;
+}
+
+// Every bucket between from and to, so days without data show up as gaps
+function listBuckets(from, to, granularity) {
+  const keys = [];
+  for (let t = from.getTime(); t <= to.getTime(); t += DAY_MS) {
+    const key = bucketKey(toDateKey(new Date(t)), granularity);
+    if (keys[keys.length - 1] !== key) keys.push(key);
+  }
+  return keys;
+}
+
+// Averages daily snapshots per bucket; buckets without data stay null.
+// Voided days are left out, and any bucket that had a corrected or voided
+// day is marked corrected.
+function bucketPriceHistory(docs, buckets, granularity) {
+  const sums = new Map(buckets.map((key) => [key, {}]));
+  const corrected = new Set();
+  for (const doc of docs) {
+    const key = bucketKey(doc.date, granularity);
+    const bucket = sums.get(key);
+    if (!bucket) continue;
+    if (doc.voided || doc.correctedGrades?.length) corrected.add(key);
+    if (doc.voided) continue;
+    for (const grade of FUEL_GRADES) {
+      if (typeof doc[grade] !== "number") continue;
+      const acc = (bucket[grade] ||= { total: 0, count: 0 });
+      acc.total += doc[grade];
+      acc.count += 1;
+    }
+  }
+
+  return buckets.map((key) => {
+    const point = { date: key };
+    for (const grade of FUEL_GRADES) {
+      const acc = sums.get(key)[grade];
+      point[grade] = acc ? Number((acc.total / acc.count).toFixed(3)) : null;
+    }
+    point.corrected = corrected.has(key);
+    return point;
+  });
+}
+
+// ============================================================
+// 📤 IMPORT / EXPORT
+// ============================================================
+const EXPORT_COLUMNS = [
+  "stationId",
+  "stationName",
+  "date",
+  "time",
+  "updatedBy",
+  ...FUEL_GRADES,
+  "flags",
+  "correction",
+  "originalPrices",
+  "correctionReason",
+];
+const MAX_IMPORT_ROWS = 10000;
+
+// Quotes when needed and defuses spreadsheet formula injection
+function csvCell(value) {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows, columns) {
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(","))];
+  return lines.join("\r\n") + "\r\n";
+}
+
+// "1,2,3" or repeated ?stationIds= params -> ["1","2","3"]
+function parseIdList(value) {
+  if (value === undefined) return [];
+  return [].concat(value).flatMap((v) => String(v).split(",")).map((v) => v.trim()).filter(Boolean);
+}
+
+// Requested station ids outside the organization are dropped, never matched
+async function loadExportRows(orgId, { stationIds, from, to }) {
+  const stations = await loadStations(orgId, { includeInactive: true });
+  const names = new Map(stations.map((s) => [s.id, s.name]));
+  const filter = {
+    stationId: { $in: stationIds.length ? stationIds.filter((id) => names.has(id)) : [...names.keys()] },
+  };
+  if (from || to) filter.date = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+
+  const docs = await PriceHistory.find(filter).sort({ date: 1, stationId: 1 }).lean();
+
+  return docs.map((doc) => ({
+    stationId: doc.stationId,
+    stationName: names.get(doc.stationId) || "",
+    date: doc.date,
+    time: doc.time,
+    updatedBy: doc.updatedBy,
+    ...Object.fromEntries(FUEL_GRADES.map((g) => [g, doc[g]])),
+    flags: (doc.flags || []).join("; "),
+    ...toCorrectionColumns(doc),
+  }));
+}
+
+// "voided" or "corrected", the corrected grades' prior prices and the reason
+function toCorrectionColumns(doc) {
+  const corrected = doc.correctedGrades || [];
+  if (!doc.voided && !corrected.length) return { correction: "", originalPrices: "", correctionReason: "" };
+  return {
+    correction: doc.voided ? "voided" : "corrected",
+    originalPrices: corrected.map((g) => `${g} ${doc.original?.[g]?.toFixed(3) ?? "none"}`).join("; "),
+    correctionReason: doc.correctionReason || "",
+  };
+}
+
+async function toXlsxBuffer(rows, columns) {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Price History");
+  sheet.columns = columns.map((key) => ({ header: key, key, width: key === "time" ? 26 : 14 }));
+  sheet.addRows(rows);
+  sheet.getRow(1).font = { bold: true };
+  for (const grade of FUEL_GRADES) sheet.getColumn(grade).numFmt = "0.000";
+  return workbook.xlsx.writeBuffer();
+}
+
+// Accepts a full ISO timestamp or HH:MM[:SS] (station-local on the row's date)
+function parseImportTime(time, date, timeZone) {
+  const text = String(time || "").trim();
+  if (!text) return null;
+  const clock = text.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  const parsed = clock
+    ? parseDateKey(date) && zonedInstant(date, `${clock[1].padStart(2, "0")}:${clock[2]}:${clock[3] || "00"}`, timeZone)
+    : new Date(text);
+  return !parsed || Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+// Validates every CSV row before anything is written.
+// Returns the PriceHistory docs to insert and per-row errors (row = CSV line number).
+async function validateImportRows(orgId, records) {
+  const stations = await loadStations(orgId, { includeInactive: true });
+  const stationIds = new Set(stations.map((s) => s.id));
+  const timeZones = Object.fromEntries(stations.map((s) => [s.id, s.timeZone]));
+  const docs = [];
+  const errors = [];
+  const seen = new Set();
+
+  records.forEach((record, index) => {
+    const row = index + 2; // line 1 is the header
+    const messages = [];
+    const stationId = String(record.stationId || "").trim();
+    const date = String(record.date || "").trim();
+
+    if (!stationIds.has(stationId)) messages.push(`Unknown station id "${stationId}"`);
+    if (!parseDateKey(date)) messages.push("date must be YYYY-MM-DD");
+
+    const time = parseImportTime(record.time, date, timeZones[stationId] || DEFAULT_TIME_ZONE);
+    if (!time) messages.push("time must be an ISO timestamp or HH:MM");
+
+    const doc = {
+      orgId,
+      stationId,
+      date,
+      time,
+      updatedBy: String(record.updatedBy || "").trim() || "Import",
+      source: "import",
+    };
+    let priced = 0;
+    let badPrice = false;
+    for (const grade of FUEL_GRADES) {
+      const raw = String(record[grade] ?? "").trim();
+      if (!raw) {
+        doc[grade] = null;
+        continue;
+      }
+      const value = Number(raw);
+      if (!/^\d+(\.\d{1,3})?$/.test(raw) || value < PRICE_MIN || value > PRICE_MAX) {
+        messages.push(`${grade} must be a price between ${PRICE_MIN} and ${PRICE_MAX} with at most 3 decimals`);
+        badPrice = true;
+      } else {
+        doc[grade] = value;
+        priced += 1;
+      }
+    }
+    if (!priced && !badPrice) {
+      messages.push("At least one grade price is required");
+    }
+
+    const key = `${stationId}|${date}`;
+    if (seen.has(key)) messages.push("Duplicate station/date in this file");
+    seen.add(key);
+
+    if (messages.length) errors.push({ row, stationId, date, messages });
+    else docs.push(doc);
+  });
+
+  // Existing daily snapshots are never overwritten by an import
+  if (docs.length) {
+    const existing = await PriceHistory.find({
+      stationId: { $in: [...new Set(docs.map((d) => d.stationId))] },
+      date: { $in: [...new Set(docs.map((d) => d.date))] },
+    })
+      .select({ stationId: 1, date: 1 })
+      .lean();
+    const taken = new Set(existing.map((d) => `${d.stationId}|${d.date}`));
+
+    records.forEach((record, index) => {
+      const key = `${String(record.stationId || "").trim()}|${String(record.date || "").trim()}`;
+      if (taken.has(key)) {
+        errors.push({
+          row: index + 2,
+          stationId: record.stationId,
+          date: record.date,
+          messages: ["Price history already exists for this station and date"],
+        });
+      }
+    });
+    errors.sort((a, b) => a.row - b.row);
+  }
+
+  return { docs, errors };
+}
+
+// ============================================================
+// 🏁 COMPETITORS
+// ============================================================
+const COMPETITOR_RADIUS_MILES = Number(process.env.COMPETITOR_RADIUS_MILES) || 5;
+const EARTH_RADIUS_MILES = 3958.8;
+
+function distanceMiles(a, b) {
+  const toRad = (deg) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
+
+// Our stations within range of a competitor, nearest first
+function linkCompetitor(competitor, stations) {
+  return stations
+    .map((station) => ({ stationId: station.id, distance: Number(distanceMiles(competitor, station).toFixed(2)) }))
+    .filter((link) => link.distance <= COMPETITOR_RADIUS_MILES)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+// Recomputes an organization's competitor links, e.g. after a station moves
+// or is added. Competitors only ever link to their own organization's stations.
+async function relinkCompetitors(orgId) {
+  const [competitors, stations] = await Promise.all([
+    Competitor.find({ orgId }).lean(),
+    loadStations(orgId, { includeInactive: true }),
+  ]);
+  for (const competitor of competitors) {
+    await Competitor.updateOne({ _id: competitor._id }, { links: linkCompetitor(competitor, stations) });
+  }
+}
+
+function toCompetitorDto(doc, latest = null) {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    brand: doc.brand ?? null,
+    address: doc.address,
+    lat: doc.lat,
+    lng: doc.lng,
+    active: doc.active,
+    links: doc.links,
+    latest: latest && {
+      observedAt: latest.observedAt,
+      recordedBy: latest.recordedBy,
+      prices: Object.fromEntries(FUEL_GRADES.map((g) => [g, latest[g]])),
+    },
+  };
+}
+
+function readCompetitorInput(body, { partial = false } = {}) {
+  const input = {};
+  for (const field of ["name", "brand", "address", "lat", "lng", "active"]) {
+    if (body[field] !== undefined) input[field] = body[field];
+  }
+  if (input.lat !== undefined) input.lat = Number(input.lat);
+  if (input.lng !== undefined) input.lng = Number(input.lng);
+  if (input.brand === "") input.brand = null;
+
+  if (!partial && (!input.name || input.lat === undefined || input.lng === undefined)) {
+    throw new Error("name, lat and lng are required");
+  }
+  return input;
+}
+
+// Competitor prices are observed, not posted by us, so only range and
+// precision are checked (no 9/10-cent rule)
+function validateObservedPrice(raw) {
+  const text = String(raw ?? "").trim();
+  if (!/^\d+(\.\d{1,3})?$/.test(text)) return "Price must be a number with at most 3 decimals";
+  const value = Number(text);
+  if (value < PRICE_MIN || value > PRICE_MAX) {
+    return `Price must be between $${PRICE_MIN.toFixed(2)} and $${PRICE_MAX.toFixed(2)}`;
+  }
+  return null;
+}
+
+const round3 = (value) => Number(value.toFixed(3));
+
+// Daily comparison of our price against linked competitors, per grade.
+// Each competitor contributes its last observation of the day.
+async function buildCompetitorComparison(stationId, from, to) {
+  const competitors = await Competitor.find({ "links.stationId": stationId, active: true }).lean();
+  const range = { $gte: toDateKey(from), $lte: toDateKey(to) };
+
+  const [ours, observations] = await Promise.all([
+    PriceHistory.find({ stationId, date: range, voided: { $ne: true } }).lean(),
+    CompetitorPrice.find({ competitorId: { $in: competitors.map((c) => c._id) }, date: range })
+      .sort({ observedAt: 1 })
+      .lean(),
+  ]);
+
+  const lastOfDay = new Map();
+  for (const obs of observations) lastOfDay.set(`${obs.date}|${obs.competitorId}`, obs);
+  const theirsByDate = {};
+  for (const obs of lastOfDay.values()) (theirsByDate[obs.date] ||= []).push(obs);
+  const oursByDate = new Map(ours.map((doc) => [doc.date, doc]));
+
+  const data = listBuckets(from, to, "day").map((date) => {
+    const point = { date };
+    for (const grade of FUEL_GRADES) {
+      const own = oursByDate.get(date)?.[grade] ?? null;
+      const theirs = (theirsByDate[date] || []).map((o) => o[grade]).filter((p) => typeof p === "number");
+      const avg = theirs.length ? round3(theirs.reduce((sum, p) => sum + p, 0) / theirs.length) : null;
+      point[grade] = {
+        ours: own,
+        competitorMin: theirs.length ? Math.min(...theirs) : null,
+        competitorAvg: avg,
+        competitorCount: theirs.length,
+        spread: own !== null && avg !== null ? round3(own - avg) : null,
+      };
+    }
+    return point;
+  });
+
+  return { competitors: competitors.map((c) => toCompetitorDto(c)), data };
+}
+
+// ============================================================
+// 💵 COST & MARGIN
+// ============================================================
+
+const MAX_GALLONS = 1_000_000;
+
+// Costs are quoted to the tenth of a cent (rack prices often carry 4 decimals)
+function validateCost(raw) {
+  const text = String(raw ?? "").trim();
+  if (!/^\d+(\.\d{1,4})?$/.test(text)) return "Cost must be a number with at most 4 decimals";
+  const value = Number(text);
+  if (value <= 0 || value > PRICE_MAX) return `Cost must be above $0 and at most $${PRICE_MAX.toFixed(2)}`;
+  return null;
+}
+
+function validateGallons(raw) {
+  const value = Number(raw);
+  if (String(raw ?? "").trim() === "" || !Number.isFinite(value) || value < 0 || value > MAX_GALLONS) {
+    return `Gallons must be between 0 and ${MAX_GALLONS.toLocaleString("en-US")}`;
+  }
+  return null;
+}
+
+function toDeliveryDto(doc) {
+  return {
+    id: String(doc._id),
+    stationId: doc.stationId,
+    grade: doc.grade,
+    kind: doc.kind,
+    date: doc.date,
+    deliveredAt: doc.deliveredAt,
+    gallons: doc.gallons,
+    costPerGallon: doc.costPerGallon,
+    supplier: doc.supplier,
+    recordedBy: doc.recordedBy,
+  };
+}
+
+// Cost basis for a grade right now, or null when nothing was recorded
+async function latestCost(stationId, grade) {
+  const delivery = await Delivery.findOne({ stationId, grade }).sort({ deliveredAt: -1 }).lean();
+  return delivery ? delivery.costPerGallon : null;
+}
+
+// Daily price, cost and margin per station and grade over [from, to]. Price
+// and cost carry forward from the last day they were set; gallons do not.
+// Returns { series: [{ stationId, grade, points, summary }], warnings }.
+async function buildMarginReport({ stations, grades, from, to, granularity }) {
+  const fromKey = toDateKey(from);
+  const toKey = toDateKey(to);
+  const days = listBuckets(from, to, "day");
+  const buckets = listBuckets(from, to, granularity);
+  const series = [];
+  const warnings = [];
+
+  for (const station of stations) {
+    const [snapshots, deliveries, sales] = await Promise.all([
+      PriceHistory.find({ stationId: station.id, date: { $lte: toKey }, voided: { $ne: true } }).sort({ date: 1 }).lean(),
+      Delivery.find({ stationId: station.id, date: { $lte: toKey } }).sort({ deliveredAt: 1 }).lean(),
+      DailySales.find({ stationId: station.id, date: { $gte: fromKey, $lte: toKey } }).lean(),
+    ]);
+    const gallonsSold = new Map(sales.map((s) => [`${s.date}|${s.grade}`, s.gallons]));
+
+    for (const grade of grades.filter((g) => station.grades.includes(g))) {
+      const priceDays = snapshots.filter((doc) => typeof doc[grade] === "number");
+      const costDays = deliveries.filter((d) => d.grade === grade);
+      let price = null;
+      let cost = null;
+      let p = 0;
+      let c = 0;
+      const sums = new Map(buckets.map((key) => [key, { price: 0, cost: 0, margin: 0, count: 0, gallons: 0, total: 0, belowCostDays: 0 }]));
+
+      for (const day of days) {
+        while (p < priceDays.length && priceDays[p].date <= day) price = priceDays[p++][grade];
+        while (c < costDays.length && costDays[c].date <= day) cost = costDays[c++].costPerGallon;
+        if (price === null || cost === null) continue;
+
+        const margin = price - cost;
+        const gallons = gallonsSold.get(`${day}|${grade}`) ?? null;
+        const acc = sums.get(bucketKey(day, granularity));
+        acc.price += price;
+        acc.cost += cost;
+        acc.margin += margin;
+        acc.count += 1;
+        if (gallons !== null) {
+          acc.gallons += gallons;
+          acc.total += margin * gallons;
+        }
+        if (margin < 0) {
+          acc.belowCostDays += 1;
+          warnings.push({ stationId: station.id, grade, date: day, price, cost: round3(cost), margin: round3(margin) });
+        }
+      }
+
+      const points = buckets.map((key) => {
+        const acc = sums.get(key);
+        if (!acc.count) return { date: key, price: null, cost: null, margin: null, gallons: null, totalMargin: null, belowCostDays: 0 };
+        return {
+          date: key,
+          price: round3(acc.price / acc.count),
+          cost: round3(acc.cost / acc.count),
+          margin: round3(acc.margin / acc.count),
+          gallons: acc.gallons || null,
+          totalMargin: acc.gallons ? Number(acc.total.toFixed(2)) : null,
+          belowCostDays: acc.belowCostDays,
+        };
+      });
+
+      const priced = [...sums.values()].filter((acc) => acc.count);
+      const pricedDays = priced.reduce((n, acc) => n + acc.count, 0);
+      const gallons = priced.reduce((n, acc) => n + acc.gallons, 0);
+      series.push({
+        stationId: station.id,
+        grade,
+        points,
+        summary: {
+          avgMargin: pricedDays ? round3(priced.reduce((n, acc) => n + acc.margin, 0) / pricedDays) : null,
+          gallons: gallons || null,
+          totalMargin: gallons ? Number(priced.reduce((n, acc) => n + acc.total, 0).toFixed(2)) : null,
+          belowCostDays: priced.reduce((n, acc) => n + acc.belowCostDays, 0),
+        },
+      });
+    }
+  }
+
+  return { series, warnings };
+}
+
+// ============================================================
+// ⏰ SCHEDULED PRICE CHANGES
+// ============================================================
+
+const SCHEDULER_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 60 * 1000;
+const MAX_SCHEDULE_AHEAD_MS = 90 * DAY_MS;
+
+let schedulerRunning = false;
+
+function scheduledPrices(doc) {
+  const prices = {};
+  for (const grade of FUEL_GRADES) {
+    if (doc[grade] !== null && doc[grade] !== undefined) prices[grade] = doc[grade];
+  }
+  return prices;
+}
+
+function toScheduledChangeDto(doc) {
+  return {
+    id: String(doc._id),
+    effectiveAt: doc.effectiveAt,
+    stationIds: doc.stationIds,
+    prices: scheduledPrices(doc),
+    status: doc.status,
+    flags: doc.flags || {},
+    createdBy: doc.createdBy,
+    createdAt: doc.createdAt,
+    appliedAt: doc.appliedAt,
+    skipped: doc.skipped,
+    appliedStationIds: doc.appliedStationIds || [],
+    failedStationIds: doc.failedStationIds || [],
+    cancelledAt: doc.cancelledAt,
+    cancelledBy: doc.cancelledBy,
+    error: doc.error,
+  };
+}
+
+// Validates { effectiveAt, stationIds, prices } for a new scheduled change.
+// Every target station must be one of the organization's and sell every
+// scheduled grade.
+async function validateScheduleInput(orgId, body, now = new Date()) {
+  const fieldErrors = {};
+  const { effectiveAt: rawEffectiveAt, prices } = body;
+  const stationIds = [...new Set(parseIdList(body.stationIds))];
+
+  const effectiveAt = new Date(rawEffectiveAt ?? "");
+  if (!rawEffectiveAt || Number.isNaN(effectiveAt.getTime())) {
+    fieldErrors.effectiveAt = "Effective time must be an ISO 8601 timestamp";
+  } else if (effectiveAt <= now) {
+    fieldErrors.effectiveAt = "Effective time must be in the future";
+  } else if (effectiveAt - now > MAX_SCHEDULE_AHEAD_MS) {
+    fieldErrors.effectiveAt = "Changes can be scheduled at most 90 days ahead";
+  }
+
+  if (!stationIds.length) fieldErrors.stationIds = "Select at least one station";
+
+  const values = {};
+  if (!prices || typeof prices !== "object" || Array.isArray(prices)) {
+    fieldErrors.prices = "Prices must be an object keyed by fuel grade";
+  } else {
+    for (const [grade, raw] of Object.entries(prices)) {
+      if (raw === "" || raw === null || raw === undefined) continue;
+      if (!FUEL_GRADES.includes(grade)) {
+        fieldErrors[grade] = "Unknown fuel grade";
+        continue;
+      }
+      const error = validatePrice(raw);
+      if (error) fieldErrors[grade] = error;
+      else values[grade] = Number(raw);
+    }
+    if (!Object.keys(values).length && !Object.keys(fieldErrors).length) {
+      fieldErrors.prices = "No prices submitted";
+    }
+  }
+
+  if (stationIds.length) {
+    const stations = await Station.find({ orgId, id: { $in: stationIds }, active: true }).lean();
+    const found = new Set(stations.map((s) => s.id));
+    const unknown = stationIds.filter((id) => !found.has(id));
+    if (unknown.length) fieldErrors.stationIds = `Unknown station(s): ${unknown.join(", ")}`;
+
+    for (const grade of Object.keys(values)) {
+      const missing = stations.filter((s) => !s.grades.includes(grade)).map((s) => s.name);
+      if (missing.length) fieldErrors[grade] = `Not sold at ${missing.join(", ")}`;
+    }
+  }
+
+  return { effectiveAt, stationIds, values, fieldErrors };
+}
+
+// Applies one due change to every target station. Stations that were
+// deactivated or dropped a grade since scheduling are skipped, not failed; a
+// station whose write fails does not stop the others.
+async function applyScheduledChange(doc) {
+  const values = scheduledPrices(doc);
+  const user = { name: doc.createdBy, _id: doc.createdByUserId };
+  const skipped = [];
+  const failed = [];
+
+  for (const stationId of doc.stationIds) {
+    try {
+      const station = await findOrgStation(doc.orgId, stationId, { activeOnly: true });
+      if (!station || Object.keys(values).some((g) => !station.grades.includes(g))) {
+        skipped.push(stationId);
+        continue;
+      }
+      await recordPriceChanges(stationId, values, user, {
+        now: doc.effectiveAt,
+        flags: doc.flags?.[stationId] || {},
+      });
+    } catch (err) {
+      console.error(`Scheduled change ${doc._id} failed for station ${stationId}:`, err);
+      failed.push({ stationId, error: err.message });
+      continue;
+    }
+    await ScheduledPriceChange.updateOne({ _id: doc._id }, { $push: { appliedStationIds: stationId } });
+  }
+  return { skipped, failed };
+}
+
+// Claims each due change (pending -> applied) before writing so a change is
+// never applied twice. Station failures leave it partial (some stations live)
+// or failed (none), with each station's outcome recorded on the change.
+async function runScheduledChanges(now = new Date()) {
+  if (schedulerRunning || !isDbReady()) return;
+  schedulerRunning = true;
+  try {
+    const due = await ScheduledPriceChange.find({ status: "pending", effectiveAt: { $lte: now } })
+      .sort({ effectiveAt: 1 })
+      .lean();
+
+    for (const change of due) {
+      const claimed = await ScheduledPriceChange.findOneAndUpdate(
+        { _id: change._id, status: "pending" },
+        { status: "applied", appliedAt: new Date() },
+        { new: true }
+      ).lean();
+      if (!claimed) continue;
+
+      try {
+        const { skipped, failed } = await applyScheduledChange(claimed);
+        const applied = claimed.stationIds.length - skipped.length - failed.length;
+        await ScheduledPriceChange.updateOne(
+          { _id: claimed._id },
+          {
+            status: !failed.length ? "applied" : applied ? "partial" : "failed",
+            skipped,
+            failedStationIds: failed.map((f) => f.stationId),
+            error: failed.length ? failed.map((f) => `${f.stationId}: ${f.error}`).join("; ") : null,
+          }
+        );
+        console.log(`⏰ Applied scheduled change ${claimed._id} to ${applied} station(s), ${failed.length} failed`);
+      } catch (err) {
+        console.error(`Scheduled change ${claimed._id} failed:`, err);
+        // Stations recorded as applied before the error are live
+        await ScheduledPriceChange.updateOne({ _id: claimed._id }, [
+          {
+            $set: {
+              status: { $cond: [{ $gt: [{ $size: "$appliedStationIds" }, 0] }, "partial", "failed"] },
+              error: err.message,
+            },
+          },
+        ]);
+      }
+    }
+  } catch (err) {
+    console.error("Scheduler error:", err);
+  } finally {
+    schedulerRunning = false;
+  }
+}
+
+function startScheduler() {
+  runScheduledChanges();
+  setInterval(runScheduledChanges, SCHEDULER_INTERVAL_MS).unref();
+}
+
+// Adds the pending scheduled prices for each station, soonest first
+async function attachUpcomingPrices(stations) {
+  const pending = await ScheduledPriceChange.find({
+    status: "pending",
+    stationIds: { $in: stations.map((s) => s.id) },
+  })
+    .sort({ effectiveAt: 1 })
+    .lean();
+
+  return stations.map((station) => ({
+    ...station,
+    upcoming: pending
+      .filter((change) => change.stationIds.includes(station.id))
+      .map((change) => ({ id: String(change._id), effectiveAt: change.effectiveAt, prices: scheduledPrices(change) })),
+  }));
+}
+
+// ============================================================
+// 📰 PUBLIC PRICE FEED
+// Read-only current prices for price signs and aggregator partners.
+// Responses carry a strong ETag and Last-Modified so pollers get 304s.
+// ============================================================
+
+const FEED_VERSION = 1;
+const FEED_MAX_AGE_S = Number(process.env.FEED_MAX_AGE_S) || 60;
+
+function gradeStatus(station, grade) {
+  if (station.unavailableGrades.includes(grade)) return "unavailable";
+  return station.prices[grade] === null ? "unreported" : "available";
+}
+
+function toFeedStation(station) {
+  return {
+    id: station.id,
+    name: station.name,
+    brand: station.brand,
+    address: station.address,
+    lat: station.lat,
+    lng: station.lng,
+    updatedAt: station.lastUpdated === "Never" ? null : station.lastUpdated,
+    grades: Object.fromEntries(
+      station.grades.map((grade) => [grade, { price: station.prices[grade], status: gradeStatus(station, grade) }])
+    ),
+  };
+}
+
+// Current feed stations plus the newest change to any of them (station edits
+// such as stock flags, or price snapshots), truncated to whole seconds for HTTP
+async function loadFeed(orgId, stationId = null) {
+  const docs = await Station.find({ orgId, active: true, ...(stationId && { id: stationId }) }).sort({ name: 1 }).lean();
+  const latest = await loadLatestPrices();
+  const stations = docs.map((doc) => withLatestPrices(toStationDto(doc), latest.get(doc.id)));
+
+  const times = [...docs.map((d) => d.updatedAt), ...docs.map((d) => latest.get(d.id)?.updatedAt)]
+    .filter(Boolean)
+    .map((d) => d.getTime());
+  const lastModified = new Date(Math.floor(Math.max(0, ...times) / 1000) * 1000);
+  return { lastModified, stations: stations.map(toFeedStation) };
+}
+
+function xmlEscape(value) {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function toFeedXml({ lastModified, stations }) {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<priceFeed version="${FEED_VERSION}" lastModified="${lastModified.toISOString()}" currency="USD" unit="gallon">`,
+  ];
+  for (const station of stations) {
+    lines.push(
+      `  <station id="${xmlEscape(station.id)}" name="${xmlEscape(station.name)}" brand="${xmlEscape(station.brand)}">`,
+      `    <address>${xmlEscape(station.address)}</address>`,
+      `    <location lat="${station.lat}" lng="${station.lng}"/>`,
+      `    <updatedAt>${xmlEscape(station.updatedAt)}</updatedAt>`
+    );
+    for (const [grade, { price, status }] of Object.entries(station.grades)) {
+      lines.push(
+        price === null
+          ? `    <grade name="${grade}" status="${status}"/>`
+          : `    <grade name="${grade}" status="${status}">${price.toFixed(3)}</grade>`
+      );
+    }
+    lines.push("  </station>");
+  }
+  lines.push("</priceFeed>", "");
+  return lines.join("\n");
+}
+
+// Sends body with validators, or 304 when the client's copy is current.
+// The ETag is a hash of the body, so the body must not embed request time.
+// Feeds are per organization, picked by X-Org or the Host subdomain as well
+// as ?org, so shared caches must key on those headers too.
+function sendCacheable(req, res, body, contentType, lastModified) {
+  res.vary("X-Org");
+  res.vary("Host");
+  res.set({
+    "Content-Type": contentType,
+    "Cache-Control": `public, max-age=${FEED_MAX_AGE_S}`,
+    ETag: `"${crypto.createHash("sha1").update(body).digest("hex")}"`,
+    "Last-Modified": lastModified.toUTCString(),
+  });
+  if (req.fresh) return res.status(304).end();
+  res.send(body);
+}
+
+// ============================================================
+// 🔔 STALE PRICE ALERTS
+// A background check raises an alert when a station misses its daily
+// deadline, goes too long without an update, or posts a big price move.
+// ============================================================
+
+const ALERT_CONFIG = {
+  defaultDeadline: process.env.PRICE_DEADLINE || "09:00",
+  staleAfterHours: Number(process.env.ALERT_STALE_HOURS) || 36,
+  bigMovePct: Number(process.env.ALERT_BIG_MOVE_PCT) || 5,
+  intervalMs: Number(process.env.ALERT_CHECK_INTERVAL_MS) || 5 * 60 * 1000,
+};
+
+let alertsRunning = false;
+
+// Deadline and freshness of one station's prices at `now`
+async function stationUpdateStatus(station, now = new Date()) {
+  const timeZone = station.timeZone;
+  const deadline = station.priceDeadline || ALERT_CONFIG.defaultDeadline;
+  const local = zonedParts(now, timeZone);
+
+  const latest = (await loadLatestPrices()).get(station.id);
+  const lastUpdated = latest?.lastUpdated ? new Date(latest.lastUpdated) : null;
+  const ageHours = lastUpdated ? (now - lastUpdated) / (60 * 60 * 1000) : null;
+
+  return {
+    stationId: station.id,
+    name: station.name,
+    deadline,
+    timeZone,
+    localDate: local.date,
+    lastUpdated,
+    ageHours: ageHours === null ? null : Number(ageHours.toFixed(1)),
+    missedDeadline: local.time >= deadline && (!lastUpdated || lastUpdated < zonedStartOfDay(local.date, timeZone)),
+    stale: ageHours === null || ageHours >= ALERT_CONFIG.staleAfterHours,
+  };
+}
+
+async function loadOverdueStations(orgId, now = new Date()) {
+  const stations = await loadStations(orgId);
+  const statuses = await Promise.all(stations.map((s) => stationUpdateStatus(s, now)));
+  return statuses.filter((s) => s.missedDeadline || s.stale);
+}
+
+function toAlertDto(doc) {
+  return {
+    id: String(doc._id),
+    kind: doc.kind,
+    stationId: doc.stationId,
+    message: doc.message,
+    details: doc.details,
+    deliveries: doc.deliveries,
+    createdAt: doc.createdAt,
+  };
+}
+
+// Delivery channels, each { name, destination(org), send(alert, destination) }.
+// A channel only delivers for organizations it has a destination for: the
+// org's own settings, or the env fallback for the default organization. Both
+// built-in channels are enabled by env, so a local stand-in (e.g. MailHog on
+// smtp://localhost:1025, or any HTTP listener for the webhook) can receive
+// alerts while testing.
+const alertChannels = [];
+
+function registerAlertChannel(channel) {
+  alertChannels.push(channel);
+}
+
+function orgAlertChannels(org) {
+  return alertChannels.filter((channel) => channel.destination(org));
+}
+
+if (process.env.ALERT_SMTP_URL) {
+  const transport = nodemailer.createTransport(process.env.ALERT_SMTP_URL);
+  registerAlertChannel({
+    name: "email",
+    destination: (org) => org.alertEmailTo || (isDefaultOrg(org) && process.env.ALERT_EMAIL_TO) || null,
+    send: (alert, to) =>
+      transport.sendMail({
+        from: process.env.ALERT_EMAIL_FROM || "fuelify@localhost",
+        to,
+        subject: `[${alert.orgName}] ${alert.message}`,
+        text: `${alert.message}\n\n${JSON.stringify(alert.details, null, 2)}\n`,
+      }),
+  });
+}
+
+registerAlertChannel({
+  name: "webhook",
+  destination: (org) => org.alertWebhookUrl || (isDefaultOrg(org) && process.env.ALERT_WEBHOOK_URL) || null,
+  send: async (alert, url) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(alert),
+      signal: AbortSignal.timeout(10 * 1000),
+    });
+    if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+  },
+});
+
+// Records the alert (once per key), fans it out to the organization's
+// channels and logs each delivery result. Returns null when the alert was
+// already raised.
+async function raiseAlert(org, { kind, stationId = null, key, message, details = {} }) {
+  let doc;
+  try {
+    doc = await Alert.create({ orgId: org._id, kind, stationId, key, message, details });
+  } catch (err) {
+    if (err.code === 11000) return null;
+    throw err;
+  }
+
+  const alert = toAlertDto(doc);
+  const deliveries = await Promise.all(
+    orgAlertChannels(org).map(async (channel) => {
+      try {
+        await channel.send({ ...alert, orgName: org.name }, channel.destination(org));
+        return { channel: channel.name, ok: true, sentAt: new Date() };
+      } catch (err) {
+        console.error(`Alert delivery via ${channel.name} failed:`, err.message);
+        return { channel: channel.name, ok: false, error: err.message, sentAt: new Date() };
+      }
+    })
+  );
+  await Alert.updateOne({ _id: doc._id }, { deliveries });
+
+  publishPriceEvent(org._id, "alert", { ...alert, deliveries });
+  return { ...alert, deliveries };
+}
+
+async function runAlertChecks(now = new Date()) {
+  if (alertsRunning || !isDbReady()) return;
+  alertsRunning = true;
+  try {
+    const orgs = await Organization.find({ active: true }).lean();
+    for (const org of orgs) await runOrgAlertChecks(org, now);
+  } catch (err) {
+    console.error("Alert check error:", err);
+  } finally {
+    alertsRunning = false;
+  }
+}
+
+async function runOrgAlertChecks(org, now) {
+  const stations = await loadStations(org._id);
+  for (const station of stations) {
+    const status = await stationUpdateStatus(station, now);
+    const age = status.lastUpdated ? `last update ${status.ageHours}h ago` : "never updated";
+    if (status.missedDeadline) {
+      await raiseAlert(org, {
+        kind: "missed-deadline",
+        stationId: station.id,
+        key: `missed-deadline:${station.id}:${status.localDate}`,
+        message: `${station.name} missed its ${status.deadline} price deadline (${age})`,
+        details: status,
+      });
+    } else if (status.stale) {
+      await raiseAlert(org, {
+        kind: "stale",
+        stationId: station.id,
+        key: `stale:${station.id}:${status.localDate}`,
+        message: `${station.name} prices are stale (${age})`,
+        details: status,
+      });
+    }
+  }
+
+  // Changes received since the previous day; the key makes re-scans harmless
+  const recent = await PriceChange.find({
+    orgId: org._id,
+    receivedAt: { $gte: new Date(now - DAY_MS) },
+    oldPrice: { $gt: 0 },
+  }).lean();
+  const names = Object.fromEntries(stations.map((s) => [s.id, s.name]));
+  // A move into or out of a price an admin has since voided or corrected is
+  // not a real move
+  const corrected = await PriceHistory.find({
+    orgId: org._id,
+    date: { $in: [...new Set(recent.map((c) => c.date))] },
+    correctedAt: { $ne: null },
+  })
+    .select({ stationId: 1, date: 1, voided: 1, correctedGrades: 1, correctedAt: 1 })
+    .lean();
+  const correctionFor = new Map(corrected.map((doc) => [`${doc.stationId}:${doc.date}`, doc]));
+  for (const change of recent) {
+    const correction = correctionFor.get(`${change.stationId}:${change.date}`);
+    if (
+      correction &&
+      (correction.voided || correction.correctedGrades.includes(change.grade)) &&
+      correction.correctedAt > (change.receivedAt || change.changedAt)
+    ) {
+      continue;
+    }
+    const pct = pctChange(change.oldPrice, change.newPrice);
+    if (Math.abs(pct) < ALERT_CONFIG.bigMovePct) continue;
+    await raiseAlert(org, {
+      kind: "big-move",
+      stationId: change.stationId,
+      key: `big-move:${change._id}`,
+      message: `${names[change.stationId] ?? `Station ${change.stationId}`} ${change.grade} moved ${pct > 0 ? "+" : ""}${pct.toFixed(1)}% ($${change.oldPrice.toFixed(3)} → $${change.newPrice.toFixed(3)})`,
+      details: {
+        grade: change.grade,
+        oldPrice: change.oldPrice,
+        newPrice: change.newPrice,
+        changedAt: change.changedAt,
+        updatedBy: change.updatedBy,
+      },
+    });
+  }
+}
+
+function startAlertChecks() {
+  runAlertChecks();
+  setInterval(runAlertChecks, ALERT_CONFIG.intervalMs).unref();
+}
+
+// ============================================================
+// 📑 SUMMARY REPORTS
+// Price summaries over a week, month or custom range, rendered to HTML and
+// PDF and archived. Schedules generate one report per completed period.
+// ============================================================
+
+const REPORT_CHECK_INTERVAL_MS = Number(process.env.REPORT_CHECK_INTERVAL_MS) || 15 * 60 * 1000;
+// Local time, in the organization's zone, on the morning after a period ends
+const REPORT_RUN_TIME = process.env.REPORT_RUN_TIME || "06:00";
+const MAX_REPORT_DAYS = 366;
+const REPORT_PERIOD_LABELS = { weekly: "Weekly", monthly: "Monthly", custom: "Custom" };
+
+let reportsRunning = false;
+
+// The last complete Monday-Sunday week or calendar month before `now`, by the
+// calendar of the given zone
+function lastCompletedPeriod(period, timeZone, now = new Date()) {
+  const today = parseDateKey(localDateKey(now, timeZone));
+  if (period === "weekly") {
+    const monday = parseDateKey(bucketKey(toDateKey(today), "week"));
+    return { from: new Date(monday.getTime() - 7 * DAY_MS), to: new Date(monday.getTime() - DAY_MS) };
+  }
+  const firstOfMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  return {
+    from: new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1)),
+    to: new Date(firstOfMonth.getTime() - DAY_MS),
+  };
+}
+
+// When a schedule next runs: the start of the current period if its run time
+// is still ahead, else the start of the next one
+function nextReportRun(period, timeZone, now = new Date()) {
+  const currentStart = new Date(lastCompletedPeriod(period, timeZone, now).to.getTime() + DAY_MS);
+  const currentRun = zonedInstant(toDateKey(currentStart), REPORT_RUN_TIME, timeZone);
+  if (currentRun > now) return currentRun;
+
+  const nextStart =
+    period === "weekly"
+      ? new Date(currentStart.getTime() + 7 * DAY_MS)
+      : new Date(Date.UTC(currentStart.getUTCFullYear(), currentStart.getUTCMonth() + 1, 1));
+  return zonedInstant(toDateKey(nextStart), REPORT_RUN_TIME, timeZone);
+}
+
+// Per-station average/min/max of daily closing prices per grade, change
+// counts from the log, days without any price update, and each grade's
+// stations ranked against the group average
+async function buildPriceReport({ stations, from, to }) {
+  const range = { $gte: toDateKey(from), $lte: toDateKey(to) };
+  const days = listBuckets(from, to, "day");
+  const stationIds = stations.map((s) => s.id);
+
+  const [snapshots, changeCounts] = await Promise.all([
+    PriceHistory.find({ stationId: { $in: stationIds }, date: range, voided: { $ne: true } }).lean(),
+    PriceChange.aggregate([
+      { $match: { stationId: { $in: stationIds }, date: range } },
+      { $group: { _id: { stationId: "$stationId", grade: "$grade" }, count: { $sum: 1 } } },
+    ]),
+  ]);
+  const counts = new Map(changeCounts.map((c) => [`${c._id.stationId}|${c._id.grade}`, c.count]));
+
+  const rows = stations.map((station) => {
+    const docs = snapshots.filter((doc) => doc.stationId === station.id);
+    const reported = new Set(docs.map((doc) => doc.date));
+    const grades = {};
+    for (const grade of station.grades) {
+      const values = docs.map((doc) => doc[grade]).filter((p) => typeof p === "number");
+      grades[grade] = {
+        avg: values.length ? round3(values.reduce((sum, p) => sum + p, 0) / values.length) : null,
+        min: values.length ? Math.min(...values) : null,
+        max: values.length ? Math.max(...values) : null,
+        changes: counts.get(`${station.id}|${grade}`) || 0,
+      };
+    }
+    return {
+      stationId: station.id,
+      name: station.name,
+      grades,
+      reportedDays: reported.size,
+      missedDays: days.filter((day) => !reported.has(day)),
+    };
+  });
+
+  const comparison = {};
+  for (const grade of FUEL_GRADES) {
+    const ranked = rows
+      .filter((row) => row.grades[grade]?.avg != null)
+      .map((row) => ({ stationId: row.stationId, name: row.name, avg: row.grades[grade].avg }))
+      .sort((a, b) => a.avg - b.avg);
+    if (!ranked.length) continue;
+    const average = round3(ranked.reduce((sum, r) => sum + r.avg, 0) / ranked.length);
+    comparison[grade] = { average, stations: ranked.map((r) => ({ ...r, vsAverage: round3(r.avg - average) })) };
+  }
+
+  return {
+    from: toDateKey(from),
+    to: toDateKey(to),
+    days: days.length,
+    stations: rows,
+    comparison,
+    totals: {
+      changes: changeCounts.reduce((sum, c) => sum + c.count, 0),
+      missedDays: rows.reduce((sum, row) => sum + row.missedDays.length, 0),
+    },
+  };
+}
+
+const formatReportPrice = (value, empty = "—") => (value === null || value === undefined ? empty : `$${value.toFixed(3)}`);
+const formatSpread = (value) => `${value > 0 ? "+" : ""}${value.toFixed(3)}`;
+
+function toReportHtml(org, title, summary, generatedAt) {
+  const cell = (value, align = "left") => `<td style="text-align:${align}">${xmlEscape(value)}</td>`;
+  const head = (labels) => `<tr>${labels.map((l) => `<th>${xmlEscape(l)}</th>`).join("")}</tr>`;
+
+  const priceRows = summary.stations.flatMap((row) =>
+    Object.entries(row.grades).map(
+      ([grade, g]) =>
+        `<tr>${cell(row.name)}${cell(grade)}${cell(formatReportPrice(g.avg), "right")}${cell(formatReportPrice(g.min), "right")}${cell(formatReportPrice(g.max), "right")}${cell(g.changes, "right")}</tr>`
+    )
+  );
+  const missedRows = summary.stations.map(
+    (row) =>
+      `<tr>${cell(row.name)}${cell(`${row.reportedDays} / ${summary.days}`, "right")}${cell(row.missedDays.length, "right")}${cell(row.missedDays.join(", ") || "—")}</tr>`
+  );
+  const comparison = Object.entries(summary.comparison).map(
+    ([grade, c]) => `
+    <h3>${xmlEscape(grade)} <small>group average ${formatReportPrice(c.average)}</small></h3>
+    <table>
+      ${head(["#", "Station", "Average", "vs group"])}
+      ${c.stations.map((s, i) => `<tr>${cell(i + 1, "right")}${cell(s.name)}${cell(formatReportPrice(s.avg), "right")}${cell(formatSpread(s.vsAverage), "right")}</tr>`).join("\n      ")}
+    </table>`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${xmlEscape(`${org.name} — ${title}`)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1e293b; margin: 2rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h3 { text-transform: capitalize; margin-bottom: 0.5rem; }
+  h3 small { font-weight: normal; color: #64748b; text-transform: none; }
+  .meta { color: #64748b; margin-bottom: 2rem; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.9rem; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 0.4rem 0.6rem; }
+  th { text-align: left; background: #f1f5f9; }
+</style>
+</head>
+<body>
+  <h1>${org.logoUrl ? `<img src="${xmlEscape(org.logoUrl)}" alt="" height="32"> ` : ""}${xmlEscape(org.name)}</h1>
+  <div class="meta">${xmlEscape(title)} · ${summary.days} day(s) · ${summary.totals.changes} price change(s) · generated ${xmlEscape(generatedAt.toISOString())}</div>
+
+  <h2>Prices by station</h2>
+  <table>
+    ${head(["Station", "Grade", "Average", "Min", "Max", "Changes"])}
+    ${priceRows.join("\n    ")}
+  </table>
+
+  <h2>Missed update days</h2>
+  <table>
+    ${head(["Station", "Days reported", "Missed", "Dates missed"])}
+    ${missedRows.join("\n    ")}
+  </table>
+
+  <h2>Station comparison</h2>
+  ${comparison.join("\n") || "<p>No prices in this period.</p>"}
+</body>
+</html>
+`;
+}
+
+// Draws rows of fixed-width columns, starting a new page when one fills up
+function drawPdfTable(doc, columns, rows) {
+  const left = doc.page.margins.left;
+  const drawRow = (cells, font) => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 20) doc.addPage();
+    const y = doc.y;
+    let x = left;
+    doc.font(font).fontSize(9);
+    cells.forEach((text, i) => {
+      doc.text(String(text), x, y, { width: columns[i].width - 6, align: columns[i].align || "left", lineBreak: false, ellipsis: true });
+      x += columns[i].width;
+    });
+    doc.x = left;
+    doc.y = y + 15;
+  };
+
+  drawRow(columns.map((c) => c.label), "Helvetica-Bold");
+  rows.forEach((cells) => drawRow(cells, "Helvetica"));
+  doc.moveDown();
+}
+
+function toReportPdf(org, title, summary, generatedAt) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "LETTER", margin: 50, info: { Title: `${org.name} - ${title}` } });
+    const chunks = [];
+    doc.on("data", (chunk) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.font("Helvetica-Bold").fontSize(18).text(org.name);
+    doc.font("Helvetica").fontSize(10).fillColor("#64748b")
+      .text(`${title} · ${summary.days} day(s) · ${summary.totals.changes} price change(s) · generated ${generatedAt.toISOString()}`);
+    doc.fillColor("black").moveDown();
+
+    doc.font("Helvetica-Bold").fontSize(13).text("Prices by station").moveDown(0.5);
+    drawPdfTable(
+      doc,
+      [
+        { label: "Station", width: 170 },
+        { label: "Grade", width: 70 },
+        { label: "Average", width: 65, align: "right" },
+        { label: "Min", width: 65, align: "right" },
+        { label: "Max", width: 65, align: "right" },
+        { label: "Changes", width: 65, align: "right" },
+      ],
+      summary.stations.flatMap((row) =>
+        Object.entries(row.grades).map(([grade, g]) => [
+          row.name,
+          grade,
+          formatReportPrice(g.avg, "-"),
+          formatReportPrice(g.min, "-"),
+          formatReportPrice(g.max, "-"),
+          g.changes,
+        ])
+      )
+    );
+
+    doc.font("Helvetica-Bold").fontSize(13).text("Missed update days").moveDown(0.5);
+    drawPdfTable(
+      doc,
+      [
+        { label: "Station", width: 170 },
+        { label: "Reported", width: 70, align: "right" },
+        { label: "Missed", width: 60, align: "right" },
+        { label: "Dates missed", width: 210 },
+      ],
+      summary.stations.map((row) => [
+        row.name,
+        `${row.reportedDays} / ${summary.days}`,
+        row.missedDays.length,
+        row.missedDays.join(", ") || "-",
+      ])
+    );
+
+    doc.font("Helvetica-Bold").fontSize(13).text("Station comparison").moveDown(0.5);
+    const grades = Object.entries(summary.comparison);
+    if (!grades.length) doc.font("Helvetica").fontSize(10).text("No prices in this period.");
+    for (const [grade, c] of grades) {
+      doc.font("Helvetica-Bold").fontSize(11).text(`${grade} (group average ${formatReportPrice(c.average)})`).moveDown(0.3);
+      drawPdfTable(
+        doc,
+        [
+          { label: "#", width: 30, align: "right" },
+          { label: "Station", width: 220 },
+          { label: "Average", width: 80, align: "right" },
+          { label: "vs group", width: 80, align: "right" },
+        ],
+        c.stations.map((s, i) => [i + 1, s.name, formatReportPrice(s.avg), formatSpread(s.vsAverage)])
+      );
+    }
+
+    doc.end();
+  });
+}
+
+function toReportDto(doc) {
+  return {
+    id: String(doc._id),
+    title: doc.title,
+    period: doc.period,
+    from: doc.from,
+    to: doc.to,
+    scheduleId: doc.scheduleId ? String(doc.scheduleId) : null,
+    stationCount: doc.summary.stations.length,
+    totals: doc.summary.totals,
+    generatedBy: doc.generatedBy,
+    createdAt: doc.createdAt,
+  };
+}
+
+function toReportScheduleDto(doc) {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    period: doc.period,
+    stationIds: doc.stationIds,
+    active: doc.active,
+    nextRunAt: doc.nextRunAt,
+    lastRunAt: doc.lastRunAt,
+    lastError: doc.lastError,
+    createdBy: doc.createdBy,
+  };
+}
+
+// Builds, renders and archives one report. An empty stationIds list covers
+// every active station of the organization.
+async function generateReport({ org, period, from, to, stationIds = [], scheduleId = null, generatedBy }) {
+  const all = await loadStations(org._id, { includeInactive: true });
+  const stations = stationIds.length ? all.filter((s) => stationIds.includes(s.id)) : all.filter((s) => s.active);
+  const summary = await buildPriceReport({ stations, from, to });
+
+  const title = `${REPORT_PERIOD_LABELS[period]} price report ${summary.from} to ${summary.to}`;
+  const generatedAt = new Date();
+  const html = toReportHtml(org, title, summary, generatedAt);
+  const pdf = await toReportPdf(org, title, summary, generatedAt);
+
+  return Report.create({
+    orgId: org._id,
+    scheduleId,
+    title,
+    period,
+    from: summary.from,
+    to: summary.to,
+    summary,
+    html,
+    pdf,
+    generatedBy,
+  });
+}
+
+// Moves active schedules onto the organization's current time zone
+async function rescheduleReports(org, now = new Date()) {
+  const schedules = await ReportSchedule.find({ orgId: org._id, active: true }).lean();
+  for (const schedule of schedules) {
+    await ReportSchedule.updateOne({ _id: schedule._id }, { nextRunAt: nextReportRun(schedule.period, orgTimeZone(org), now) });
+  }
+}
+
+// Claims each due schedule by advancing nextRunAt before generating, so a
+// report is never produced twice. After downtime only the latest completed
+// period is generated.
+async function runReportSchedules(now = new Date()) {
+  if (reportsRunning || !isDbReady()) return;
+  reportsRunning = true;
+  try {
+    const due = await ReportSchedule.find({ active: true, nextRunAt: { $lte: now } }).lean();
+    for (const schedule of due) {
+      const org = await Organization.findOne({ _id: schedule.orgId, active: true }).lean();
+      const timeZone = org ? orgTimeZone(org) : DEFAULT_TIME_ZONE;
+      const claimed = await ReportSchedule.findOneAndUpdate(
+        { _id: schedule._id, nextRunAt: schedule.nextRunAt },
+        { nextRunAt: nextReportRun(schedule.period, timeZone, now), lastRunAt: now },
+        { new: true }
+      ).lean();
+      if (!claimed || !org) continue;
+
+      try {
+        const { from, to } = lastCompletedPeriod(schedule.period, timeZone, now);
+        const report = await generateReport({
+          org,
+          period: schedule.period,
+          from,
+          to,
+          stationIds: schedule.stationIds,
+          scheduleId: schedule._id,
+          generatedBy: schedule.createdBy,
+        });
+        await ReportSchedule.updateOne({ _id: schedule._id }, { lastError: null });
+        console.log(`📑 Generated "${report.title}" for ${org.slug}`);
+      } catch (err) {
+        console.error(`Report schedule ${schedule._id} failed:`, err);
+        await ReportSchedule.updateOne({ _id: schedule._id }, { lastError: err.message });
+      }
+    }
+  } catch (err) {
+    console.error("Report scheduler error:", err);
+  } finally {
+    reportsRunning = false;
+  }
+}
+
+function startReportScheduler() {
+  runReportSchedules();
+  setInterval(runReportSchedules, REPORT_CHECK_INTERVAL_MS).unref();
+}
+
+// ============================================================
+// 🔐 AUTHENTICATION
+// ============================================================
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+function verifyPassword(password, stored) {
+  const [salt, hash] = String(stored).split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function hashToken(token) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function publicUser(user) {
+  return {
+    id: String(user._id),
+    username: user.username,
+    name: user.name,
+    role: user.role,
+    stationIds: user.stationIds,
+    active: user.active,
+  };
+}
+
+function canAccessStation(user, stationId) {
+  return user.role === "admin" || user.stationIds.includes(String(stationId));
+}
+
+function readBearerToken(req) {
+  const header = req.headers.authorization || "";
+  if (header.startsWith("Bearer ")) return header.slice(7).trim();
+
+  // EventSource cannot set headers, so event streams may pass the token in the query
+  const wantsStream = String(req.headers.accept || "").includes("text/event-stream");
+  return wantsStream && req.query.access_token ? String(req.query.access_token) : null;
+}
+
+// Resolves the bearer token to an active user and attaches it as req.user,
+// with their organization as req.org. A request naming another organization
+// (subdomain or X-Org) is refused rather than silently switched.
+async function requireAuth(req, res, next) {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+
+  const token = readBearerToken(req);
+  if (!token) return res.status(401).json({ error: "Not authenticated" });
+
+  try {
+    const session = await Session.findOne({
+      tokenHash: hashToken(token),
+      expiresAt: { $gt: new Date() },
+    }).lean();
+    if (!session) return res.status(401).json({ error: "Session expired" });
+
+    const user = await User.findById(session.userId).lean();
+    if (!user || !user.active) return res.status(401).json({ error: "Account disabled" });
+
+    const org = await Organization.findOne({ _id: user.orgId, active: true }).lean();
+    if (!org) return res.status(401).json({ error: "Organization disabled" });
+    const requested = requestedOrgSlug(req);
+    if (requested && requested !== org.slug) {
+      return res.status(403).json({ error: "Signed in to a different organization" });
+    }
+
+    req.user = user;
+    req.org = org;
+    next();
+  } catch (err) {
+    console.error("Auth error:", err);
+    res.status(500).json({ error: "Failed to verify session" });
+  }
+}
+
+function requireRole(role) {
+  return (req, res, next) => {
+    if (req.user?.role !== role) return res.status(403).json({ error: "Forbidden" });
+    next();
+  };
+}
+
+// Platform operators (who onboard organizations) authenticate with a shared
+// PLATFORM_ADMIN_TOKEN; the routes are disabled when it is unset
+function requirePlatformAdmin(req, res, next) {
+  const expected = process.env.PLATFORM_ADMIN_TOKEN;
+  if (!expected) return res.status(404).json({ error: "Not found" });
+
+  const token = readBearerToken(req);
+  const matches =
+    token && crypto.timingSafeEqual(Buffer.from(hashToken(token)), Buffer.from(hashToken(expected)));
+  if (!matches) return res.status(401).json({ error: "Not authenticated" });
+  next();
+}
+
+// Creates the first admin from env vars so a fresh database is reachable
+async function ensureBootstrapAdmin(org) {
+  const { ADMIN_USERNAME, ADMIN_PASSWORD } = process.env;
+  if (!ADMIN_USERNAME || !ADMIN_PASSWORD) return;
+  if (await User.exists({})) return;
+
+  await User.create({
+    orgId: org._id,
+    username: ADMIN_USERNAME,
+    name: process.env.ADMIN_NAME || "Administrator",
+    passwordHash: hashPassword(ADMIN_PASSWORD),
+    role: "admin",
+  });
+  console.log(`🟢 Bootstrap admin "${ADMIN_USERNAME}" created`);
+}
+
+// ============================================================
+// 🔑 API KEYS
+// Integrations send "X-API-Key: fk_<prefix>_<secret>". Keys carry read/write
+// scopes and a station list, are rate limited per minute, and every request
+// made with one is logged. Counters live in memory (single instance assumed,
+// as for live events).
+// ============================================================
+const API_KEY_SCOPES = ["read", "write"];
+const DEFAULT_API_RATE_LIMIT = Number(process.env.API_KEY_RATE_LIMIT) || 60;
+const RATE_WINDOW_MS = 60 * 1000;
+
+// keyId -> { windowStart, count }
+const apiKeyUsage = new Map();
+
+function createApiKeySecret() {
+  const prefix = crypto.randomBytes(4).toString("hex");
+  return { prefix, key: `fk_${prefix}_${crypto.randomBytes(24).toString("base64url")}` };
+}
+
+function toApiKeyDto(doc) {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    prefix: doc.prefix,
+    scopes: doc.scopes,
+    stationIds: doc.stationIds,
+    rateLimitPerMinute: doc.rateLimitPerMinute,
+    active: doc.active,
+    lastUsedAt: doc.lastUsedAt,
+    createdBy: doc.createdBy,
+    createdAt: doc.createdAt,
+    revokedAt: doc.revokedAt,
+  };
+}
+
+function readApiKeyInput(body, { partial = false } = {}) {
+  const input = {};
+  for (const field of ["name", "scopes", "stationIds", "rateLimitPerMinute"]) {
+    if (body[field] !== undefined) input[field] = body[field];
+  }
+  if (!partial && !input.name) throw new Error("name is required");
+  if (input.scopes !== undefined) {
+    if (!Array.isArray(input.scopes) || !input.scopes.length || input.scopes.some((s) => !API_KEY_SCOPES.includes(s))) {
+      throw new Error("scopes must be a non-empty list of read and/or write");
+    }
+  } else if (!partial) {
+    input.scopes = ["read"];
+  }
+  if (input.stationIds !== undefined) input.stationIds = parseIdList(input.stationIds);
+  if (input.rateLimitPerMinute !== undefined) {
+    input.rateLimitPerMinute = Number(input.rateLimitPerMinute);
+    if (!Number.isInteger(input.rateLimitPerMinute) || input.rateLimitPerMinute < 1 || input.rateLimitPerMinute > 10000) {
+      throw new Error("rateLimitPerMinute must be a whole number between 1 and 10000");
+    }
+  } else if (!partial) {
+    input.rateLimitPerMinute = DEFAULT_API_RATE_LIMIT;
+  }
+  return input;
+}
+
+function canKeyAccessStation(key, stationId) {
+  return !key.stationIds.length || key.stationIds.includes(String(stationId));
+}
+
+// Fixed one-minute window per key; sets the X-RateLimit-* headers and
+// returns false once the key is over its limit
+function takeRateLimitToken(key, res, now = Date.now()) {
+  const id = String(key._id);
+  let usage = apiKeyUsage.get(id);
+  if (!usage || now - usage.windowStart >= RATE_WINDOW_MS) {
+    usage = { windowStart: now, count: 0 };
+    apiKeyUsage.set(id, usage);
+  }
+  usage.count += 1;
+
+  const resetSeconds = Math.ceil((usage.windowStart + RATE_WINDOW_MS - now) / 1000);
+  res.set({
+    "X-RateLimit-Limit": String(key.rateLimitPerMinute),
+    "X-RateLimit-Remaining": String(Math.max(0, key.rateLimitPerMinute - usage.count)),
+    "X-RateLimit-Reset": String(resetSeconds),
+  });
+  if (usage.count <= key.rateLimitPerMinute) return true;
+  res.set("Retry-After", String(resetSeconds));
+  return false;
+}
+
+// Logs the request once the response is sent; logging never fails the request
+function logApiRequest(req, res, key) {
+  const started = Date.now();
+  res.on("finish", () => {
+    ApiRequestLog.create({
+      orgId: key.orgId,
+      keyId: key._id,
+      method: req.method,
+      path: req.originalUrl.split("?")[0],
+      status: res.statusCode,
+      durationMs: Date.now() - started,
+      ip: req.ip,
+      at: new Date(started),
+    }).catch((err) => console.error("API request log error:", err.message));
+  });
+}
+
+// Resolves X-API-Key to an active key with `scope` and attaches req.apiKey
+// and req.org. Throttled requests are logged too.
+function requireApiKey(scope) {
+  return async (req, res, next) => {
+    if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+
+    const raw = req.get("X-API-Key");
+    if (!raw) return res.status(401).json({ error: "Missing X-API-Key header" });
+
+    try {
+      const key = await ApiKey.findOne({ keyHash: hashToken(raw), active: true }).lean();
+      if (!key) return res.status(401).json({ error: "Invalid API key" });
+      const org = await Organization.findOne({ _id: key.orgId, active: true }).lean();
+      if (!org) return res.status(401).json({ error: "Organization disabled" });
+
+      logApiRequest(req, res, key);
+      if (!takeRateLimitToken(key, res)) return res.status(429).json({ error: "Rate limit exceeded" });
+      if (!key.scopes.includes(scope)) return res.status(403).json({ error: `This key lacks the ${scope} scope` });
+
+      ApiKey.updateOne({ _id: key._id }, { lastUsedAt: new Date() }).catch(() => {});
+      req.apiKey = key;
+      req.org = org;
+      next();
+    } catch (err) {
+      console.error("API key error:", err);
+      res.status(500).json({ error: "Failed to verify API key" });
+    }
+  };
+}
+
+// ============================================================
+// 🌐 API ROUTES
+// ============================================================
+
+app.get("/", async (req, res) => {
+  res.json({
+    status: "Fuelify API",
+    mongodb: isDbReady() ? "Connected" : "Not connected",
+    organizations: isDbReady() ? await Organization.countDocuments({ active: true }) : knownOrgs.size,
+  });
+});
+
+// Machine-readable description of every route (OpenAPI 3.1)
+app.get("/api/openapi.json", (req, res) => {
+  res.json(OPENAPI_SPEC);
+});
+
+// Public branding of the requested organization, for the login screen
+app.get("/api/org", resolveOrg, (req, res) => {
+  res.json(toOrgDto(req.org));
+});
+
+// Login: exchanges username/password for a bearer token. The organization
+// comes from body.org, else the subdomain/X-Org header, else the default.
+app.post("/api/auth/login", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+
+  try {
+    const { username, password } = req.body || {};
+    if (!username || !password) {
+      return res.status(400).json({ error: "Username and password are required" });
+    }
+
+    const slug = String(req.body.org || requestedOrgSlug(req) || DEFAULT_ORG_SLUG).toLowerCase().trim();
+    const org = await findOrgBySlug(slug);
+    const user = org && (await User.findOne({ orgId: org._id, username: String(username).toLowerCase().trim() }).lean());
+    if (!user || !user.active || !verifyPassword(String(password), user.passwordHash)) {
+      return res.status(401).json({ error: "Invalid username or password" });
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+    await Session.create({
+      tokenHash: hashToken(token),
+      userId: user._id,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    });
+
+    res.json({ token, user: publicUser(user), org: toOrgDto(org) });
+  } catch (err) {
+    console.error("Login error:", err);
+    res.status(500).json({ error: "Login failed" });
+  }
+});
+
+app.post("/api/auth/logout", requireAuth, async (req, res) => {
+  try {
+    await Session.deleteOne({ tokenHash: hashToken(readBearerToken(req)) });
+    res.json({ success: true });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.get("/api/auth/me", requireAuth, (req, res) => {
+  res.json({ user: publicUser(req.user), org: toOrgDto(req.org) });
+});
+
+// Every /api/admin/* route below is admin-only and scoped to the admin's organization
+app.use("/api/admin", requireAuth, requireRole("admin"));
+
+// Public station and feed routes read the organization named by the request
+app.use(["/api/stations", "/api/feed"], resolveOrg);
+
+// ✅ UPDATED: Returns Stations WITH Latest Prices (?upcoming=true adds scheduled prices).
+// While MongoDB is unreachable the last known prices are served with stale: true.
+app.get("/api/stations", async (req, res) => {
+  if (!isDbReady()) return res.json(staleStations(req.org._id));
+
+  try {
+    const stations = await attachLatestPrices(await loadStations(req.org._id));
+    res.json(req.query.upcoming === "true" ? await attachUpcomingPrices(stations) : stations);
+  } catch (err) {
+    console.error("Station fetch error:", err);
+    if (knownStations.has(String(req.org._id))) return res.json(staleStations(req.org._id));
+    res.status(500).json({ error: "Failed to fetch stations" });
+  }
+});
+
+// Nearest / cheapest search: ?lat&lng | ?zip | ?address, radius in miles,
+// sort=distance|price, grade for price sorting
+app.get("/api/stations/search", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+
+  try {
+    const origin = resolveSearchOrigin(req.query);
+    if (!origin) {
+      return res.status(400).json({ error: "Provide a valid lat/lng, or a known zip or address" });
+    }
+
+    const radius = Number(req.query.radius ?? 25);
+    if (!Number.isFinite(radius) || radius <= 0 || radius > 500) {
+      return res.status(400).json({ error: "radius must be between 0 and 500 miles" });
+    }
+
+    const sort = req.query.sort === "price" ? "price" : "distance";
+    const grade = req.query.grade ? String(req.query.grade) : "regular";
+    if (!FUEL_GRADES.includes(grade)) return res.status(400).json({ error: "Unknown fuel grade" });
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+    const nearby = await Station.aggregate([
+      {
+        $geoNear: {
+          near: toGeoPoint(origin),
+          distanceField: "distanceMeters",
+          maxDistance: radius * METERS_PER_MILE,
+          query: { orgId: req.org._id, active: true },
+          spherical: true,
+        },
+      },
+    ]);
+
+    const withPrices = await attachLatestPrices(
+      nearby.map((doc) => ({
+        ...toStationDto(doc),
+        distance: Number((doc.distanceMeters / METERS_PER_MILE).toFixed(2)),
+      }))
+    );
+
+    // $geoNear already returns nearest first; unpriced stations sort last by price
+    if (sort === "price") {
+      withPrices.sort((a, b) => (a.prices[grade] || Infinity) - (b.prices[grade] || Infinity) || a.distance - b.distance);
+    }
+
+    res.json({
+      origin,
+      radius,
+      unit: "mi",
+      sort,
+      grade,
+      stations: withPrices.slice(0, limit),
+    });
+  } catch (err) {
+    console.error("Station search error:", err);
+    res.status(500).json({ error: "Failed to search stations" });
+  }
+});
+
+// Submit Prices: all grades for one station, validated together, all-or-nothing
+app.post("/api/update-prices", requireAuth, async (req, res) => {
+  try {
+    const { stationId, prices, confirm, submissionId = null } = req.body || {};
+    if (!canAccessStation(req.user, stationId)) {
+      return res.status(403).json({ error: "Not assigned to this station" });
+    }
+
+    if (submissionId !== null && !isValidSubmissionId(submissionId)) {
+      return res.status(400).json({ error: "submissionId must be 8-64 letters, digits or dashes" });
+    }
+
+    // A replay of an already-recorded submission succeeds without writing again
+    if (submissionId) {
+      const existing = await PriceChange.findOne({
+        orgId: req.org._id,
+        stationId: String(stationId),
+        submissionId,
+      }).lean();
+      if (existing) {
+        return res.json({ success: true, duplicate: true, dateKey: existing.date, stationId: existing.stationId });
+      }
+    }
+
+    const { capturedAt, error: captureError } = readCaptureTime(req.body?.capturedAt);
+    if (captureError) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors: { capturedAt: captureError } });
+    }
+
+    const { values, fieldErrors } = await validatePriceSubmission(req.org._id, stationId, prices);
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    const warnings = await detectPriceAnomalies(String(stationId), values, capturedAt);
+    if (Object.keys(warnings).length && confirm !== true) {
+      return res.status(409).json({ error: "Confirmation required", requiresConfirmation: true, warnings });
+    }
+
+    const dateKey = await recordPriceChanges(String(stationId), values, req.user, {
+      now: capturedAt,
+      flags: warnings,
+      submissionId,
+    });
+    res.json({ success: true, dateKey, stationId: String(stationId), prices: values });
+  } catch (err) {
+    // Two replays of the same submission raced past the duplicate check
+    if (err.code === 11000 && req.body?.submissionId) {
+      return res.json({ success: true, duplicate: true, stationId: String(req.body.stationId) });
+    }
+    console.error("Save error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Update Price: single grade, kept for older clients
+app.post("/api/update-price", requireAuth, async (req, res) => {
+  try {
+    const { stationId, fuelType, price, confirm } = req.body || {};
+    if (!canAccessStation(req.user, stationId)) {
+      return res.status(403).json({ error: "Not assigned to this station" });
+    }
+
+    const { values, fieldErrors } = await validatePriceSubmission(
+      req.org._id,
+      stationId,
+      { [fuelType]: price },
+      { requireAll: false }
+    );
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    const warnings = await detectPriceAnomalies(String(stationId), values);
+    if (Object.keys(warnings).length && confirm !== true) {
+      return res.status(409).json({ error: "Confirmation required", requiresConfirmation: true, warnings });
+    }
+
+    const dateKey = await recordPriceChanges(String(stationId), values, req.user, { flags: warnings });
+    res.json({ success: true, dateKey, stationId: String(stationId) });
+  } catch (err) {
+    console.error("Save error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Out-of-stock flag for one grade: { grade, available }
+app.post("/api/stations/:id/availability", requireAuth, async (req, res) => {
+  try {
+    const { grade, available } = req.body || {};
+    if (!canAccessStation(req.user, req.params.id)) {
+      return res.status(403).json({ error: "Not assigned to this station" });
+    }
+    if (typeof available !== "boolean") return res.status(400).json({ error: "available must be true or false" });
+
+    const station = await findOrgStation(req.org._id, req.params.id, { activeOnly: true });
+    if (!station) return res.status(404).json({ error: "Station not found" });
+    if (!station.grades.includes(grade)) {
+      return res.status(400).json({ error: "This station does not sell this grade" });
+    }
+
+    const updated = await Station.findOneAndUpdate(
+      { id: station.id },
+      available ? { $pull: { unavailableGrades: grade } } : { $addToSet: { unavailableGrades: grade } },
+      { new: true }
+    ).lean();
+    res.json(toStationDto(updated));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Public feed v1: every active station's current prices as JSON or XML
+app.get("/api/feed/v1/prices.:format", async (req, res) => {
+  if (!["json", "xml"].includes(req.params.format)) return res.status(404).json({ error: "Unknown feed format" });
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+
+  try {
+    const feed = await loadFeed(req.org._id);
+    if (req.params.format === "xml") {
+      return sendCacheable(req, res, toFeedXml(feed), "application/xml; charset=utf-8", feed.lastModified);
+    }
+    const body = JSON.stringify({
+      version: FEED_VERSION,
+      lastModified: feed.lastModified.toISOString(),
+      currency: "USD",
+      unit: "gallon",
+      stations: feed.stations,
+    });
+    sendCacheable(req, res, body, "application/json; charset=utf-8", feed.lastModified);
+  } catch (err) {
+    console.error("Feed error:", err);
+    res.status(500).json({ error: "Failed to build feed" });
+  }
+});
+
+// Compact single-station feed for sign controllers: { v, id, updatedAt,
+// prices: { grade: price | null }, out: [grades] }, or ?format=txt for
+// one "GRADE PRICE|OUT|NONE" line per grade
+app.get("/api/feed/v1/stations/:id", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+
+  try {
+    const { lastModified, stations } = await loadFeed(req.org._id, req.params.id);
+    const station = stations[0];
+    if (!station) return res.status(404).json({ error: "Station not found" });
+
+    if (req.query.format === "txt") {
+      const body = Object.entries(station.grades)
+        .map(([grade, { price, status }]) => {
+          const value = status === "unavailable" ? "OUT" : price === null ? "NONE" : price.toFixed(3);
+          return `${grade.toUpperCase()} ${value}\n`;
+        })
+        .join("");
+      return sendCacheable(req, res, body, "text/plain; charset=utf-8", lastModified);
+    }
+
+    const body = JSON.stringify({
+      v: FEED_VERSION,
+      id: station.id,
+      updatedAt: station.updatedAt,
+      prices: Object.fromEntries(Object.entries(station.grades).map(([grade, { price }]) => [grade, price])),
+      out: Object.keys(station.grades).filter((grade) => station.grades[grade].status === "unavailable"),
+    });
+    sendCacheable(req, res, body, "application/json; charset=utf-8", lastModified);
+  } catch (err) {
+    console.error("Feed error:", err);
+    res.status(500).json({ error: "Failed to build feed" });
+  }
+});
+
+// Integration API v1 (X-API-Key). Keys only ever see their own stations.
+app.get("/api/v1/stations", requireApiKey("read"), async (req, res) => {
+  try {
+    const stations = await loadStations(req.org._id);
+    res.json(await attachLatestPrices(stations.filter((s) => canKeyAccessStation(req.apiKey, s.id))));
+  } catch (err) {
+    console.error("API station fetch error:", err);
+    res.status(500).json({ error: "Failed to fetch stations" });
+  }
+});
+
+app.get("/api/v1/stations/:id", requireApiKey("read"), async (req, res) => {
+  try {
+    const station = canKeyAccessStation(req.apiKey, req.params.id)
+      ? await findOrgStation(req.org._id, req.params.id, { activeOnly: true })
+      : null;
+    if (!station) return res.status(404).json({ error: "Station not found" });
+    const [withPrices] = await attachLatestPrices([toStationDto(station)]);
+    res.json(withPrices);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Daily snapshots for one station: ?stationId&from&to (YYYY-MM-DD, at most
+// MAX_REPORT_DAYS apart, default the last 30 days)
+app.get("/api/v1/price-history", requireApiKey("read"), async (req, res) => {
+  try {
+    const stationId = String(req.query.stationId || "");
+    const station = canKeyAccessStation(req.apiKey, stationId) ? await findOrgStation(req.org._id, stationId) : null;
+    if (!station) return res.status(404).json({ error: "Station not found" });
+
+    const today = localDateKey(new Date(), station.timeZone || DEFAULT_TIME_ZONE);
+    const to = parseDateKey(req.query.to ? req.query.to : today);
+    const from = req.query.from ? parseDateKey(req.query.from) : to && new Date(to.getTime() - 29 * DAY_MS);
+    if (!from || !to) return res.status(400).json({ error: "from and to must be YYYY-MM-DD dates" });
+    if (from > to) return res.status(400).json({ error: "from must be on or before to" });
+    if ((to - from) / DAY_MS >= MAX_REPORT_DAYS) {
+      return res.status(400).json({ error: `Date range is limited to ${MAX_REPORT_DAYS} days` });
+    }
+
+    const docs = await PriceHistory.find({
+      stationId,
+      date: { $gte: toDateKey(from), $lte: toDateKey(to) },
+    })
+      .sort({ date: 1 })
+      .lean();
+
+    res.json({
+      stationId,
+      from: toDateKey(from),
+      to: toDateKey(to),
+      history: docs.map((doc) => ({ date: doc.date, ...toHistoryEntry(doc) })),
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Same contract as /api/update-prices, recorded as "API: <key name>"
+app.post("/api/v1/prices", requireApiKey("write"), async (req, res) => {
+  try {
+    const { stationId, prices, confirm, submissionId = null } = req.body || {};
+    if (!canKeyAccessStation(req.apiKey, stationId)) {
+      return res.status(403).json({ error: "This key cannot update this station" });
+    }
+
+    if (submissionId !== null && !isValidSubmissionId(submissionId)) {
+      return res.status(400).json({ error: "submissionId must be 8-64 letters, digits or dashes" });
+    }
+    if (submissionId) {
+      const existing = await PriceChange.findOne({
+        orgId: req.org._id,
+        stationId: String(stationId),
+        submissionId,
+      }).lean();
+      if (existing) {
+        return res.json({ success: true, duplicate: true, dateKey: existing.date, stationId: existing.stationId });
+      }
+    }
+
+    const { capturedAt, error: captureError } = readCaptureTime(req.body?.capturedAt);
+    if (captureError) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors: { capturedAt: captureError } });
+    }
+
+    const { values, fieldErrors } = await validatePriceSubmission(req.org._id, stationId, prices, {
+      requireAll: false,
+    });
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    const warnings = await detectPriceAnomalies(String(stationId), values, capturedAt);
+    if (Object.keys(warnings).length && confirm !== true) {
+      return res.status(409).json({ error: "Confirmation required", requiresConfirmation: true, warnings });
+    }
+
+    const dateKey = await recordPriceChanges(
+      String(stationId),
+      values,
+      { name: `API: ${req.apiKey.name}`, _id: null },
+      { now: capturedAt, flags: warnings, submissionId }
+    );
+    res.json({ success: true, dateKey, stationId: String(stationId), prices: values });
+  } catch (err) {
+    if (err.code === 11000 && req.body?.submissionId) {
+      return res.json({ success: true, duplicate: true, stationId: String(req.body.stationId) });
+    }
+    console.error("API save error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Competitors near one of our stations, with their latest observed prices
+app.get("/api/competitors", requireAuth, async (req, res) => {
+  try {
+    const stationId = String(req.query.stationId || "");
+    if (!canAccessStation(req.user, stationId)) {
+      return res.status(403).json({ error: "Not assigned to this station" });
+    }
+
+    const competitors = await Competitor.find({ orgId: req.org._id, "links.stationId": stationId, active: true }).lean();
+    const latest = await Promise.all(
+      competitors.map((c) => CompetitorPrice.findOne({ competitorId: c._id }).sort({ observedAt: -1 }).lean())
+    );
+
+    const dtos = competitors.map((c, i) => ({
+      ...toCompetitorDto(c, latest[i]),
+      distance: c.links.find((l) => l.stationId === stationId)?.distance ?? null,
+    }));
+    res.json(dtos.sort((a, b) => a.distance - b.distance));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Record an observation of a competitor's prices (any subset of grades)
+app.post("/api/competitor-prices", requireAuth, async (req, res) => {
+  try {
+    const { competitorId, prices } = req.body || {};
+    const competitor = mongoose.isValidObjectId(competitorId)
+      ? await Competitor.findOne({ _id: competitorId, orgId: req.org._id, active: true }).lean()
+      : null;
+    if (!competitor) return res.status(404).json({ error: "Competitor not found" });
+
+    if (!competitor.links.some((l) => canAccessStation(req.user, l.stationId))) {
+      return res.status(403).json({ error: "Competitor is not near any of your stations" });
+    }
+
+    const fieldErrors = {};
+    const values = {};
+    for (const [grade, raw] of Object.entries(prices || {})) {
+      if (raw === "" || raw === null || raw === undefined) continue;
+      if (!FUEL_GRADES.includes(grade)) {
+        fieldErrors[grade] = "Unknown fuel grade";
+        continue;
+      }
+      const error = validateObservedPrice(raw);
+      if (error) fieldErrors[grade] = error;
+      else values[grade] = Number(raw);
+    }
+    if (!Object.keys(values).length && !Object.keys(fieldErrors).length) {
+      fieldErrors.prices = "Enter at least one price";
+    }
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    // Observations share the business day of the nearest linked station
+    const now = new Date();
+    const timeZone = competitor.links.length ? await stationTimeZone(competitor.links[0].stationId) : DEFAULT_TIME_ZONE;
+    const observation = await CompetitorPrice.create({
+      competitorId: competitor._id,
+      date: localDateKey(now, timeZone),
+      observedAt: now,
+      recordedBy: req.user.name,
+      recordedByUserId: req.user._id,
+      ...values,
+    });
+    res.status(201).json(toCompetitorDto(competitor, observation));
+  } catch (err) {
+    console.error("Competitor price error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Admin Dashboard Data: daily entries for a window of `days` calendar days
+// (default 14, max 90) ending at the newest date with history, optionally
+// bounded by ?from&to. Pass the returned nextCursor as ?before to page back.
+app.get("/api/admin/price-history", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const [from, to, before] = ["from", "to", "before"].map((key) => (req.query[key] ? String(req.query[key]) : null));
+    if ([from, to, before].some((key) => key && !parseDateKey(key))) {
+      return res.status(400).json({ error: "from, to and before must be YYYY-MM-DD dates" });
+    }
+    const days = Math.min(Math.max(Number(req.query.days) || 14, 1), 90);
+    const orgId = req.org._id;
+
+    const bounds = {};
+    if (from) bounds.$gte = from;
+    if (to) bounds.$lte = to;
+    if (before) bounds.$lt = before;
+    const newest = await PriceHistory.findOne({ orgId, ...(Object.keys(bounds).length && { date: bounds }) })
+      .sort({ date: -1 })
+      .select({ date: 1 })
+      .lean();
+    const stations = await loadStations(orgId);
+    if (!newest) return res.json({ stations, history: {}, from: null, to: null, nextCursor: null });
+
+    const windowTo = newest.date;
+    const start = toDateKey(new Date(parseDateKey(windowTo).getTime() - (days - 1) * DAY_MS));
+    const windowFrom = from && from > start ? from : start;
+    const [data, older] = await Promise.all([
+      PriceHistory.find({ orgId, date: { $gte: windowFrom, $lte: windowTo } }).sort({ date: -1, time: -1 }).lean(),
+      PriceHistory.exists({ orgId, date: { $lt: windowFrom, ...(from && { $gte: from }) } }),
+    ]);
+
+    const historyByDate = {};
+    for (const doc of data) {
+      if (!historyByDate[doc.date]) historyByDate[doc.date] = {};
+      historyByDate[doc.date][doc.stationId] = [toHistoryEntry(doc)];
+    }
+    res.json({
+      stations,
+      history: historyByDate,
+      from: windowFrom,
+      to: windowTo,
+      nextCursor: older ? windowFrom : null,
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Live dashboard stream (Server-Sent Events): "price-change" carries the
+// updated daily entry for one station, "history-imported" asks for a refetch
+app.get("/api/admin/events", (req, res) => {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  const orgId = String(req.org._id);
+  const send = ({ orgId: eventOrgId, type, payload }) => {
+    if (eventOrgId !== orgId) return;
+    res.write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), SSE_HEARTBEAT_MS);
+
+  priceEvents.on("event", send);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    priceEvents.off("event", send);
+  });
+});
+
+// Intraday change log for one station (defaults to its latest day with changes)
+app.get("/api/admin/price-changes", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const stationId = String(req.query.stationId || "");
+    const station = await findOrgStation(req.org._id, stationId);
+    if (!station) return res.status(404).json({ error: "Station not found" });
+
+    let date = req.query.date ? String(req.query.date) : null;
+    if (!date) {
+      const latest = await PriceChange.findOne({ stationId }).sort({ changedAt: -1 }).lean();
+      date = latest?.date || null;
+    }
+
+    const changes = date
+      ? await PriceChange.find({ stationId, date }).sort({ changedAt: 1 }).lean()
+      : [];
+
+    res.json({
+      station: toStationDto(station),
+      date,
+      changes: changes.map((c) => ({
+        id: String(c._id),
+        grade: c.grade,
+        oldPrice: c.oldPrice,
+        newPrice: c.newPrice,
+        updatedBy: c.updatedBy,
+        changedAt: c.changedAt,
+        flags: c.flags || [],
+      })),
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Chart Data Endpoint: ?from&to (YYYY-MM-DD, default last 30 days) and
+// ?granularity=day|week|month. Returns one point per bucket, null for gaps.
+app.get("/api/admin/chart-data/:stationId", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const { stationId } = req.params;
+    const station = await findOrgStation(req.org._id, stationId);
+    if (!station) return res.status(404).json({ error: "Station not found" });
+
+    const granularity = req.query.granularity ? String(req.query.granularity) : "day";
+    if (!CHART_GRANULARITIES.includes(granularity)) {
+      return res.status(400).json({ error: "granularity must be day, week or month" });
+    }
+
+    const today = localDateKey(new Date(), station.timeZone || DEFAULT_TIME_ZONE);
+    const to = parseDateKey(req.query.to ? req.query.to : today);
+    const from = req.query.from ? parseDateKey(req.query.from) : to && new Date(to.getTime() - 29 * DAY_MS);
+    if (!from || !to) return res.status(400).json({ error: "from and to must be YYYY-MM-DD dates" });
+    if (from > to) return res.status(400).json({ error: "from must be on or before to" });
+
+    const buckets = listBuckets(from, to, granularity);
+    if (buckets.length > MAX_CHART_BUCKETS) {
+      return res.status(400).json({ error: "Date range too large for this granularity" });
+    }
+
+    const docs = await PriceHistory.find({
+      stationId,
+      date: { $gte: toDateKey(from), $lte: toDateKey(to) },
+    })
+      .sort({ date: 1 })
+      .lean();
+
+    res.json({
+      station: station.name,
+      stationId,
+      from: toDateKey(from),
+      to: toDateKey(to),
+      granularity,
+      data: bucketPriceHistory(docs, buckets, granularity),
+    });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Export Price History: ?format=csv|xlsx&stationIds=1,2&from&to
+app.get("/api/admin/export/price-history", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+    const from = req.query.from ? String(req.query.from) : null;
+    const to = req.query.to ? String(req.query.to) : null;
+    if ((from && !parseDateKey(from)) || (to && !parseDateKey(to))) {
+      return res.status(400).json({ error: "from and to must be YYYY-MM-DD dates" });
+    }
+
+    const rows = await loadExportRows(req.org._id, { stationIds: parseIdList(req.query.stationIds), from, to });
+    const filename = `price-history_${from || "start"}_${to || "latest"}.${format}`;
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+    if (format === "xlsx") {
+      res.type("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      return res.send(Buffer.from(await toXlsxBuffer(rows, EXPORT_COLUMNS)));
+    }
+    res.type("text/csv").send(toCsv(rows, EXPORT_COLUMNS));
+  } catch (err) {
+    console.error("Export error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Bulk Import Price History from CSV (text/csv body). All rows or none;
+// ?dryRun=true validates without writing.
+app.post(
+  "/api/admin/import/price-history",
+  express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }),
+  async (req, res) => {
+    if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ error: "Send the CSV as a text/csv request body" });
+      }
+
+      let records;
+      try {
+        records = parseCsv(req.body, { columns: true, skip_empty_lines: true, trim: true, bom: true });
+      } catch (err) {
+        return res.status(400).json({ error: `Invalid CSV: ${err.message}` });
+      }
+      if (!records.length) return res.status(400).json({ error: "CSV has no data rows" });
+      if (records.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ error: `CSV exceeds ${MAX_IMPORT_ROWS} rows` });
+      }
+
+      const { docs, errors } = await validateImportRows(req.org._id, records);
+      if (errors.length) {
+        return res.status(422).json({ error: "Import rejected", rows: records.length, errors });
+      }
+
+      if (req.query.dryRun === "true") {
+        return res.json({ success: true, dryRun: true, valid: docs.length });
+      }
+
+      // A staff submission can create one of these days after validation; the
+      // unique index rejects the insert, and the rows that made it are removed
+      // so the import stays all-or-none
+      const ids = docs.map(() => new mongoose.Types.ObjectId());
+      try {
+        await PriceHistory.insertMany(docs.map((doc, i) => ({ ...doc, _id: ids[i] })));
+      } catch (err) {
+        if (err.code !== 11000) throw err;
+        await PriceHistory.deleteMany({ _id: { $in: ids } });
+        return res.status(409).json({
+          error: "Price history was added for one of these stations and dates during the import; run it again",
+        });
+      }
+      await invalidateLatestPrices(docs.map((doc) => doc.stationId));
+      publishPriceEvent(req.org._id, "history-imported", { imported: docs.length });
+      res.json({ success: true, imported: docs.length });
+    } catch (err) {
+      console.error("Import error:", err);
+      res.status(500).json({ error: err.message });
+    }
+  }
+);
+
+// Price Corrections (Admin): ?status=pending|applied|rejected&stationId&from&to
+app.get("/api/admin/corrections", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const filter = { orgId: req.org._id };
+    if (req.query.status) filter.status = String(req.query.status);
+    if (req.query.stationId) filter.stationId = String(req.query.stationId);
+    if (req.query.from || req.query.to) {
+      filter.date = {};
+      if (req.query.from) filter.date.$gte = String(req.query.from);
+      if (req.query.to) filter.date.$lte = String(req.query.to);
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    const corrections = await PriceCorrection.find(filter).sort({ createdAt: -1 }).limit(limit).lean();
+    res.json(corrections.map(toCorrectionDto));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Request { stationId, date, action: edit|void, prices?, reason }. Applied at
+// once unless the organization requires a second admin's approval.
+app.post("/api/admin/corrections", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const { station, snapshot, values, reason, fieldErrors } = await validateCorrection(req.org._id, req.body || {});
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    const pending = await PriceCorrection.exists({ stationId: station.id, date: snapshot.date, status: "pending" });
+    if (pending) return res.status(409).json({ error: "A correction for this entry is already awaiting approval" });
+
+    const now = new Date();
+    const needsApproval = Boolean(req.org.requireCorrectionApproval);
+    const correction = await PriceCorrection.create({
+      orgId: req.org._id,
+      stationId: station.id,
+      date: snapshot.date,
+      action: req.body.action,
+      prices: req.body.action === "edit" ? values : null,
+      original: snapshotPrices(snapshot),
+      reason,
+      status: needsApproval ? "pending" : "applied",
+      requestedBy: req.user.name,
+      requestedByUserId: req.user._id,
+      appliedAt: needsApproval ? null : now,
+    });
+
+    if (!needsApproval) {
+      try {
+        await applyPriceCorrection(correction, now);
+      } catch (err) {
+        await PriceCorrection.deleteOne({ _id: correction._id });
+        throw err;
+      }
+    }
+    res.status(201).json(toCorrectionDto(correction));
+  } catch (err) {
+    console.error("Correction error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Second-admin approval; the requesting admin cannot approve their own correction
+app.post("/api/admin/corrections/:id/approve", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Correction not found" });
+    const pending = await PriceCorrection.findOne({ _id: req.params.id, orgId: req.org._id }).lean();
+    if (!pending) return res.status(404).json({ error: "Correction not found" });
+    if (pending.status !== "pending") return res.status(409).json({ error: `Correction is already ${pending.status}` });
+    if (String(pending.requestedByUserId) === String(req.user._id)) {
+      return res.status(403).json({ error: "A different admin must approve this correction" });
+    }
+
+    const snapshot = await PriceHistory.findOne({ stationId: pending.stationId, date: pending.date }).lean();
+    const conflict = correctionConflict(snapshot) || correctionOutdated(pending, snapshot);
+    if (conflict) return res.status(409).json({ error: conflict });
+
+    // Claim it first so two approvals can't both apply it
+    const now = new Date();
+    const correction = await PriceCorrection.findOneAndUpdate(
+      { _id: pending._id, status: "pending" },
+      { status: "applied", appliedAt: now, reviewedBy: req.user.name, reviewedByUserId: req.user._id, reviewedAt: now },
+      { new: true }
+    ).lean();
+    if (!correction) return res.status(409).json({ error: "Correction was reviewed by someone else" });
+
+    try {
+      await applyPriceCorrection(correction, now);
+    } catch (err) {
+      await PriceCorrection.updateOne(
+        { _id: correction._id },
+        { status: "pending", appliedAt: null, reviewedBy: null, reviewedByUserId: null, reviewedAt: null }
+      );
+      throw err;
+    }
+    res.json(toCorrectionDto(correction));
+  } catch (err) {
+    console.error("Correction approval error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Reject { note? }; the requester may also withdraw their own correction this way
+app.post("/api/admin/corrections/:id/reject", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Correction not found" });
+    const note = String(req.body?.note ?? "").trim().slice(0, MAX_CORRECTION_REASON);
+    const correction = await PriceCorrection.findOneAndUpdate(
+      { _id: req.params.id, orgId: req.org._id, status: "pending" },
+      {
+        status: "rejected",
+        reviewedBy: req.user.name,
+        reviewedByUserId: req.user._id,
+        reviewedAt: new Date(),
+        reviewNote: note || null,
+      },
+      { new: true }
+    ).lean();
+    if (!correction) {
+      const existing = await PriceCorrection.findOne({ _id: req.params.id, orgId: req.org._id }).lean();
+      return existing
+        ? res.status(409).json({ error: `Correction is already ${existing.status}` })
+        : res.status(404).json({ error: "Correction not found" });
+    }
+    res.json(toCorrectionDto(correction));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Station Management (Admin)
+app.get("/api/admin/stations", async (req, res) => {
+  try {
+    res.json(await loadStations(req.org._id, { includeInactive: true }));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post("/api/admin/stations", async (req, res) => {
+  try {
+    const input = readStationInput(req.body || {}, req.org);
+    const station = await createStation({
+      ...input,
+      orgId: req.org._id,
+      bucketedTimeZone: input.timeZone || DEFAULT_TIME_ZONE,
+    });
+    await relinkCompetitors(req.org._id);
+    res.status(201).json(toStationDto(station));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.patch("/api/admin/stations/:id", async (req, res) => {
+  try {
+    const input = readStationInput(req.body || {}, req.org, { partial: true });
+    const station = await Station.findOneAndUpdate({ orgId: req.org._id, id: req.params.id }, input, {
+      new: true,
+      runValidators: true,
+    }).lean();
+    if (!station) return res.status(404).json({ error: "Station not found" });
+
+    if (input.lat !== undefined || input.lng !== undefined) {
+      await Station.updateOne({ _id: station._id }, { location: toGeoPoint(station) });
+      await relinkCompetitors(req.org._id);
+    }
+    if (input.timeZone !== undefined && station.bucketedTimeZone !== station.timeZone) {
+      await rebucketStationHistory(station);
+      publishPriceEvent(req.org._id, "history-imported", { stationIds: [station.id] });
+    }
+    res.json(toStationDto(station));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Stations are never hard-deleted: their PriceHistory must stay resolvable
+app.delete("/api/admin/stations/:id", async (req, res) => {
+  try {
+    const station = await Station.findOneAndUpdate(
+      { orgId: req.org._id, id: req.params.id },
+      { active: false },
+      { new: true }
+    ).lean();
+    if (!station) return res.status(404).json({ error: "Station not found" });
+    res.json(toStationDto(station));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Competitor Management (Admin)
+app.get("/api/admin/competitors", async (req, res) => {
+  try {
+    const competitors = await Competitor.find({ orgId: req.org._id }).sort({ name: 1 }).lean();
+    res.json(competitors.map((c) => toCompetitorDto(c)));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post("/api/admin/competitors", async (req, res) => {
+  try {
+    const input = readCompetitorInput(req.body || {});
+    const stations = await loadStations(req.org._id, { includeInactive: true });
+    const competitor = await Competitor.create({ ...input, orgId: req.org._id, links: linkCompetitor(input, stations) });
+    res.status(201).json(toCompetitorDto(competitor));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.patch("/api/admin/competitors/:id", async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Competitor not found" });
+    const input = readCompetitorInput(req.body || {}, { partial: true });
+    let competitor = await Competitor.findOneAndUpdate({ _id: req.params.id, orgId: req.org._id }, input, {
+      new: true,
+      runValidators: true,
+    }).lean();
+    if (!competitor) return res.status(404).json({ error: "Competitor not found" });
+
+    if (input.lat !== undefined || input.lng !== undefined) {
+      const stations = await loadStations(req.org._id, { includeInactive: true });
+      competitor = await Competitor.findByIdAndUpdate(
+        competitor._id,
+        { links: linkCompetitor(competitor, stations) },
+        { new: true }
+      ).lean();
+    }
+    res.json(toCompetitorDto(competitor));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.delete("/api/admin/competitors/:id", async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Competitor not found" });
+    const competitor = await Competitor.findOneAndUpdate(
+      { _id: req.params.id, orgId: req.org._id },
+      { active: false },
+      { new: true }
+    ).lean();
+    if (!competitor) return res.status(404).json({ error: "Competitor not found" });
+    res.json(toCompetitorDto(competitor));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Our price vs competitor min/avg per grade per day: ?from&to (default last 30 days)
+app.get("/api/admin/competitor-comparison/:stationId", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const { stationId } = req.params;
+    const station = await findOrgStation(req.org._id, stationId);
+    if (!station) return res.status(404).json({ error: "Station not found" });
+
+    const today = localDateKey(new Date(), station.timeZone || DEFAULT_TIME_ZONE);
+    const to = parseDateKey(req.query.to ? req.query.to : today);
+    const from = req.query.from ? parseDateKey(req.query.from) : to && new Date(to.getTime() - 29 * DAY_MS);
+    if (!from || !to) return res.status(400).json({ error: "from and to must be YYYY-MM-DD dates" });
+    if (from > to) return res.status(400).json({ error: "from must be on or before to" });
+    if (listBuckets(from, to, "day").length > MAX_CHART_BUCKETS) {
+      return res.status(400).json({ error: "Date range too large" });
+    }
+
+    const comparison = await buildCompetitorComparison(stationId, from, to);
+    res.json({ station: toStationDto(station), from: toDateKey(from), to: toDateKey(to), ...comparison });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Scheduled Price Changes (Admin): ?status=pending|applied|partial|cancelled|failed
+app.get("/api/admin/scheduled-changes", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const filter = { orgId: req.org._id };
+    if (req.query.status) filter.status = String(req.query.status);
+    const changes = await ScheduledPriceChange.find(filter).sort({ effectiveAt: -1 }).limit(200).lean();
+    res.json(changes.map(toScheduledChangeDto));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Schedule { effectiveAt, stationIds, prices } with the same guardrails as
+// a live submission, checked against today's prices
+app.post("/api/admin/scheduled-changes", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const { effectiveAt, stationIds, values, fieldErrors } = await validateScheduleInput(req.org._id, req.body || {});
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    const flags = {};
+    for (const stationId of stationIds) {
+      const warnings = await detectPriceAnomalies(stationId, values);
+      if (Object.keys(warnings).length) flags[stationId] = warnings;
+    }
+    if (Object.keys(flags).length && req.body.confirm !== true) {
+      return res.status(409).json({ error: "Confirmation required", requiresConfirmation: true, warnings: flags });
+    }
+
+    const change = await ScheduledPriceChange.create({
+      orgId: req.org._id,
+      effectiveAt,
+      stationIds,
+      ...values,
+      flags,
+      createdBy: req.user.name,
+      createdByUserId: req.user._id,
+    });
+    res.status(201).json(toScheduledChangeDto(change));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Cancels a pending change; applied changes stay in the record
+app.delete("/api/admin/scheduled-changes/:id", async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Scheduled change not found" });
+    const change = await ScheduledPriceChange.findOneAndUpdate(
+      { _id: req.params.id, orgId: req.org._id, status: "pending" },
+      { status: "cancelled", cancelledAt: new Date(), cancelledBy: req.user.name },
+      { new: true }
+    ).lean();
+    if (!change) {
+      const exists = await ScheduledPriceChange.exists({ _id: req.params.id, orgId: req.org._id });
+      return exists
+        ? res.status(409).json({ error: "Only pending changes can be cancelled" })
+        : res.status(404).json({ error: "Scheduled change not found" });
+    }
+    res.json(toScheduledChangeDto(change));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Alerts (Admin): recent alert log with delivery results
+app.get("/api/admin/alerts", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    const alerts = await Alert.find({ orgId: req.org._id }).sort({ createdAt: -1 }).limit(limit).lean();
+    res.json({ channels: orgAlertChannels(req.org).map((c) => c.name), alerts: alerts.map(toAlertDto) });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Stations currently past their deadline or stale, for the dashboard badge
+app.get("/api/admin/overdue", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    res.json(await loadOverdueStations(req.org._id));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Sends a test alert through every channel configured for the organization
+app.post("/api/admin/alerts/test", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const alert = await raiseAlert(req.org, {
+      kind: "test",
+      key: `test:${crypto.randomUUID()}`,
+      message: `Test alert from ${req.user.name}`,
+    });
+    res.status(201).json(alert);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Deliveries & cost basis (Admin): ?stationId&from&to
+app.get("/api/admin/deliveries", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const filter = { orgId: req.org._id };
+    if (req.query.stationId) filter.stationId = String(req.query.stationId);
+    if (req.query.from || req.query.to) {
+      filter.date = {};
+      if (req.query.from) filter.date.$gte = String(req.query.from);
+      if (req.query.to) filter.date.$lte = String(req.query.to);
+    }
+    const deliveries = await Delivery.find(filter).sort({ deliveredAt: -1 }).limit(500).lean();
+    res.json(deliveries.map(toDeliveryDto));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Record { stationId, grade, kind, costPerGallon, gallons?, deliveredAt?, supplier? }
+app.post("/api/admin/deliveries", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const { stationId, grade, kind = "delivery", costPerGallon, gallons, deliveredAt, supplier } = req.body || {};
+    const fieldErrors = {};
+
+    const station = await findOrgStation(req.org._id, stationId);
+    if (!station) fieldErrors.stationId = "Unknown station";
+    else if (!station.grades.includes(grade)) fieldErrors.grade = "This station does not sell this grade";
+    if (!["delivery", "rack"].includes(kind)) fieldErrors.kind = "kind must be delivery or rack";
+
+    const costError = validateCost(costPerGallon);
+    if (costError) fieldErrors.costPerGallon = costError;
+
+    const hasGallons = gallons !== undefined && gallons !== null && gallons !== "";
+    if (kind === "delivery" && !hasGallons) fieldErrors.gallons = "Gallons are required for a delivery";
+    else if (hasGallons && validateGallons(gallons)) fieldErrors.gallons = validateGallons(gallons);
+
+    const at = deliveredAt ? new Date(deliveredAt) : new Date();
+    if (Number.isNaN(at.getTime())) fieldErrors.deliveredAt = "deliveredAt must be an ISO 8601 timestamp";
+    else if (at > new Date()) fieldErrors.deliveredAt = "deliveredAt cannot be in the future";
+
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    const delivery = await Delivery.create({
+      orgId: req.org._id,
+      stationId: station.id,
+      grade,
+      kind,
+      date: localDateKey(at, station.timeZone || DEFAULT_TIME_ZONE),
+      deliveredAt: at,
+      gallons: hasGallons ? Number(gallons) : null,
+      costPerGallon: Number(costPerGallon),
+      supplier: supplier || "",
+      recordedBy: req.user.name,
+      recordedByUserId: req.user._id,
+    });
+    res.status(201).json(toDeliveryDto(delivery));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Mistaken entries can be removed; the margin report is always recomputed
+app.delete("/api/admin/deliveries/:id", async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Delivery not found" });
+    const delivery = await Delivery.findOneAndDelete({ _id: req.params.id, orgId: req.org._id }).lean();
+    if (!delivery) return res.status(404).json({ error: "Delivery not found" });
+    res.json(toDeliveryDto(delivery));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Daily gallons sold: { stationId, date, gallons: { grade: n } }, replacing
+// any earlier figures for those grades
+app.put("/api/admin/sales", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const { stationId, date, gallons } = req.body || {};
+    const fieldErrors = {};
+
+    const station = await findOrgStation(req.org._id, stationId);
+    if (!station) fieldErrors.stationId = "Unknown station";
+    if (!parseDateKey(String(date ?? ""))) fieldErrors.date = "date must be YYYY-MM-DD";
+    if (!gallons || typeof gallons !== "object" || Array.isArray(gallons) || !Object.keys(gallons).length) {
+      fieldErrors.gallons = "Enter gallons for at least one grade";
+    } else {
+      for (const [grade, value] of Object.entries(gallons)) {
+        if (!station?.grades.includes(grade)) fieldErrors[grade] = "This station does not sell this grade";
+        else if (validateGallons(value)) fieldErrors[grade] = validateGallons(value);
+      }
+    }
+    if (Object.keys(fieldErrors).length) {
+      return res.status(422).json({ error: "Validation failed", fieldErrors });
+    }
+
+    await DailySales.bulkWrite(
+      Object.entries(gallons).map(([grade, value]) => ({
+        updateOne: {
+          filter: { stationId: station.id, date, grade },
+          update: { $set: { orgId: req.org._id, gallons: Number(value), updatedBy: req.user.name } },
+          upsert: true,
+        },
+      }))
+    );
+    res.json({ success: true, stationId: station.id, date });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Margin report: ?stationIds&grades&from&to&granularity (default last 30 days, daily)
+app.get("/api/admin/margins", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const granularity = req.query.granularity ? String(req.query.granularity) : "day";
+    if (!CHART_GRANULARITIES.includes(granularity)) {
+      return res.status(400).json({ error: "granularity must be day, week or month" });
+    }
+
+    const grades = parseIdList(req.query.grades);
+    const unknownGrades = grades.filter((g) => !FUEL_GRADES.includes(g));
+    if (unknownGrades.length) return res.status(400).json({ error: `Unknown fuel grade(s): ${unknownGrades.join(", ")}` });
+
+    const stationIds = parseIdList(req.query.stationIds);
+    const stations = (await loadStations(req.org._id, { includeInactive: true })).filter(
+      (s) => (stationIds.length ? stationIds.includes(s.id) : s.active)
+    );
+    if (!stations.length) return res.status(404).json({ error: "No matching stations" });
+
+    // History is keyed by each station's own business day; default to the
+    // latest of them so every selected station's current day is included
+    const now = new Date();
+    const today = stations.map((s) => localDateKey(now, s.timeZone || DEFAULT_TIME_ZONE)).sort().at(-1);
+    const to = parseDateKey(req.query.to ? req.query.to : today);
+    const from = req.query.from ? parseDateKey(req.query.from) : to && new Date(to.getTime() - 29 * DAY_MS);
+    if (!from || !to) return res.status(400).json({ error: "from and to must be YYYY-MM-DD dates" });
+    if (from > to) return res.status(400).json({ error: "from must be on or before to" });
+    if (listBuckets(from, to, "day").length > MAX_CHART_BUCKETS) {
+      return res.status(400).json({ error: "Date range too large" });
+    }
+
+    const report = await buildMarginReport({
+      stations,
+      grades: grades.length ? grades : [...req.org.grades],
+      from,
+      to,
+      granularity,
+    });
+    res.json({ from: toDateKey(from), to: toDateKey(to), granularity, ...report });
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Summary Reports (Admin): archived reports, newest first, without their bodies
+app.get("/api/admin/reports", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+    const reports = await Report.find({ orgId: req.org._id })
+      .select({ html: 0, pdf: 0 })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+    res.json(reports.map(toReportDto));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Generate and archive { period: weekly|monthly|custom, from?, to?, stationIds? }.
+// Weekly and monthly default to the last completed period; custom needs from/to.
+app.post("/api/admin/reports", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const body = req.body || {};
+    const period = body.period || "weekly";
+    if (!REPORT_PERIOD_LABELS[period]) return res.status(400).json({ error: "period must be weekly, monthly or custom" });
+
+    let { from, to } = period === "custom" ? {} : lastCompletedPeriod(period, orgTimeZone(req.org));
+    if (body.from || body.to || period === "custom") {
+      from = parseDateKey(body.from);
+      to = parseDateKey(body.to);
+    }
+    if (!from || !to) return res.status(400).json({ error: "from and to must be YYYY-MM-DD dates" });
+    if (from > to) return res.status(400).json({ error: "from must be on or before to" });
+    if (listBuckets(from, to, "day").length > MAX_REPORT_DAYS) {
+      return res.status(400).json({ error: `Reports cover at most ${MAX_REPORT_DAYS} days` });
+    }
+
+    const stationIds = parseIdList(body.stationIds);
+    const unknown = await foreignStationIds(req.org._id, stationIds);
+    if (unknown.length) return res.status(400).json({ error: `Unknown station(s): ${unknown.join(", ")}` });
+
+    const report = await generateReport({ org: req.org, period, from, to, stationIds, generatedBy: req.user.name });
+    res.status(201).json(toReportDto(report));
+  } catch (err) {
+    console.error("Report error:", err);
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Download an archived report as .html or .pdf
+app.get("/api/admin/reports/:id.:format", async (req, res) => {
+  if (!["html", "pdf"].includes(req.params.format)) return res.status(404).json({ error: "Unknown report format" });
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Report not found" });
+    // Not lean, so pdf comes back as a Buffer rather than a BSON Binary
+    const report = await Report.findOne({ _id: req.params.id, orgId: req.org._id });
+    if (!report) return res.status(404).json({ error: "Report not found" });
+
+    const filename = `price-report_${report.from}_${report.to}.${req.params.format}`;
+    if (req.params.format === "pdf") {
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      return res.type("application/pdf").send(report.pdf);
+    }
+    res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+    res.type("text/html").send(report.html);
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.delete("/api/admin/reports/:id", async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Report not found" });
+    const report = await Report.findOneAndDelete({ _id: req.params.id, orgId: req.org._id })
+      .select({ html: 0, pdf: 0 })
+      .lean();
+    if (!report) return res.status(404).json({ error: "Report not found" });
+    res.json(toReportDto(report));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Report Schedules (Admin)
+app.get("/api/admin/report-schedules", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const schedules = await ReportSchedule.find({ orgId: req.org._id }).sort({ name: 1 }).lean();
+    res.json(schedules.map(toReportScheduleDto));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// { name, period: weekly|monthly, stationIds? } (no stations = all active ones)
+app.post("/api/admin/report-schedules", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const { name, period } = req.body || {};
+    if (!name || !["weekly", "monthly"].includes(period)) {
+      return res.status(400).json({ error: "name and a weekly or monthly period are required" });
+    }
+    const stationIds = parseIdList(req.body.stationIds);
+    const unknown = await foreignStationIds(req.org._id, stationIds);
+    if (unknown.length) return res.status(400).json({ error: `Unknown station(s): ${unknown.join(", ")}` });
+
+    const schedule = await ReportSchedule.create({
+      orgId: req.org._id,
+      name,
+      period,
+      stationIds,
+      nextRunAt: nextReportRun(period, orgTimeZone(req.org)),
+      createdBy: req.user.name,
+      createdByUserId: req.user._id,
+    });
+    res.status(201).json(toReportScheduleDto(schedule));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Pause/resume or rename; resuming recomputes the next run
+app.patch("/api/admin/report-schedules/:id", async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Schedule not found" });
+    const { name, active } = req.body || {};
+    const update = {};
+    if (name !== undefined) update.name = name;
+    if (req.body?.stationIds !== undefined) {
+      update.stationIds = parseIdList(req.body.stationIds);
+      const unknown = await foreignStationIds(req.org._id, update.stationIds);
+      if (unknown.length) return res.status(400).json({ error: `Unknown station(s): ${unknown.join(", ")}` });
+    }
+
+    const existing = await ReportSchedule.findOne({ _id: req.params.id, orgId: req.org._id }).lean();
+    if (!existing) return res.status(404).json({ error: "Schedule not found" });
+    if (active !== undefined) {
+      update.active = Boolean(active);
+      if (update.active && !existing.active) update.nextRunAt = nextReportRun(existing.period, orgTimeZone(req.org));
+    }
+
+    const schedule = await ReportSchedule.findByIdAndUpdate(existing._id, update, { new: true, runValidators: true }).lean();
+    res.json(toReportScheduleDto(schedule));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Archived reports are kept when their schedule is removed
+app.delete("/api/admin/report-schedules/:id", async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "Schedule not found" });
+    const schedule = await ReportSchedule.findOneAndDelete({ _id: req.params.id, orgId: req.org._id }).lean();
+    if (!schedule) return res.status(404).json({ error: "Schedule not found" });
+    res.json(toReportScheduleDto(schedule));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// API Keys (Admin). The plaintext key is only returned by POST.
+app.get("/api/admin/api-keys", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const keys = await ApiKey.find({ orgId: req.org._id }).sort({ active: -1, createdAt: -1 }).lean();
+    res.json(keys.map(toApiKeyDto));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post("/api/admin/api-keys", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const input = readApiKeyInput(req.body || {});
+    const unknown = await foreignStationIds(req.org._id, input.stationIds || []);
+    if (unknown.length) return res.status(400).json({ error: `Unknown station(s): ${unknown.join(", ")}` });
+
+    const { prefix, key } = createApiKeySecret();
+    const doc = await ApiKey.create({
+      ...input,
+      orgId: req.org._id,
+      prefix,
+      keyHash: hashToken(key),
+      createdBy: req.user.name,
+    });
+    res.status(201).json({ ...toApiKeyDto(doc), key });
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.patch("/api/admin/api-keys/:id", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const input = readApiKeyInput(req.body || {}, { partial: true });
+    if (req.body?.active !== undefined) input.active = Boolean(req.body.active);
+    if (input.stationIds) {
+      const unknown = await foreignStationIds(req.org._id, input.stationIds);
+      if (unknown.length) return res.status(400).json({ error: `Unknown station(s): ${unknown.join(", ")}` });
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "API key not found" });
+    // Revoked keys stay revoked
+    const key = await ApiKey.findOneAndUpdate({ _id: req.params.id, orgId: req.org._id, revokedAt: null }, input, {
+      new: true,
+      runValidators: true,
+    }).lean();
+    if (!key) return res.status(404).json({ error: "API key not found" });
+    res.json(toApiKeyDto(key));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Revoke: the key stops working immediately but its request log is kept
+app.delete("/api/admin/api-keys/:id", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "API key not found" });
+    const key = await ApiKey.findOneAndUpdate(
+      { _id: req.params.id, orgId: req.org._id, revokedAt: null },
+      { active: false, revokedAt: new Date(), revokedBy: req.user.name },
+      { new: true }
+    ).lean();
+    if (!key) return res.status(404).json({ error: "API key not found" });
+    apiKeyUsage.delete(String(key._id));
+    res.json(toApiKeyDto(key));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Recent requests made with one key, newest first (?limit, at most 500)
+app.get("/api/admin/api-keys/:id/requests", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "API key not found" });
+    const key = await ApiKey.findOne({ _id: req.params.id, orgId: req.org._id }).lean();
+    if (!key) return res.status(404).json({ error: "API key not found" });
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    const logs = await ApiRequestLog.find({ keyId: key._id }).sort({ at: -1 }).limit(limit).lean();
+    res.json(
+      logs.map((log) => ({
+        method: log.method,
+        path: log.path,
+        status: log.status,
+        durationMs: log.durationMs,
+        ip: log.ip,
+        at: log.at,
+      }))
+    );
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Organization settings (Admin): branding, grades offered and alert destinations
+app.get("/api/admin/org", (req, res) => {
+  res.json(toOrgSettingsDto(req.org));
+});
+
+app.patch("/api/admin/org", async (req, res) => {
+  try {
+    const input = readOrgInput(req.body || {}, { partial: true });
+    delete input.slug; // the slug is the tenant's address; only the platform may change it
+
+    // Dropping a grade must not orphan stations that still sell it
+    if (input.grades) {
+      const stillSold = await Station.distinct("grades", { orgId: req.org._id, active: true });
+      const dropped = stillSold.filter((g) => !input.grades.includes(g));
+      if (dropped.length) {
+        const conflicts = await Station.find({ orgId: req.org._id, active: true, grades: { $in: dropped } })
+          .select({ name: 1 })
+          .lean();
+        return res.status(409).json({
+          error: `Still sold at ${conflicts.map((s) => s.name).join(", ")}: ${dropped.join(", ")}`,
+        });
+      }
+    }
+
+    const org = await Organization.findByIdAndUpdate(req.org._id, input, { new: true, runValidators: true }).lean();
+    knownOrgs.set(org.slug, org);
+    if (input.timeZone !== undefined) await rescheduleReports(org);
+    res.json(toOrgSettingsDto(org));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Station ids in the list that are not the organization's
+async function foreignStationIds(orgId, stationIds) {
+  const ids = stationIds.map(String);
+  const own = await Station.distinct("id", { orgId, id: { $in: ids } });
+  return ids.filter((id) => !own.includes(id));
+}
+
+// User Management (Admin)
+app.get("/api/admin/users", async (req, res) => {
+  try {
+    const users = await User.find({ orgId: req.org._id }).sort({ username: 1 }).lean();
+    res.json(users.map(publicUser));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+app.post("/api/admin/users", async (req, res) => {
+  try {
+    const { username, name, password, role, stationIds } = req.body || {};
+    if (!username || !name || !password) {
+      return res.status(400).json({ error: "username, name and password are required" });
+    }
+    const unknown = await foreignStationIds(req.org._id, stationIds || []);
+    if (unknown.length) return res.status(400).json({ error: `Unknown station(s): ${unknown.join(", ")}` });
+
+    const user = await User.create({
+      orgId: req.org._id,
+      username,
+      name,
+      passwordHash: hashPassword(String(password)),
+      role,
+      stationIds: (stationIds || []).map(String),
+    });
+    res.status(201).json(publicUser(user));
+  } catch (err) {
+    if (err.code === 11000) return res.status(409).json({ error: "Username already exists" });
+    res.status(400).json({ error: err.message });
+  }
+});
+
+app.patch("/api/admin/users/:id", async (req, res) => {
+  try {
+    const { name, password, role, stationIds, active } = req.body || {};
+    const update = {};
+    if (name !== undefined) update.name = name;
+    if (role !== undefined) update.role = role;
+    if (stationIds !== undefined) update.stationIds = stationIds.map(String);
+    if (active !== undefined) update.active = Boolean(active);
+    if (password) update.passwordHash = hashPassword(String(password));
+    if (update.stationIds) {
+      const unknown = await foreignStationIds(req.org._id, update.stationIds);
+      if (unknown.length) return res.status(400).json({ error: `Unknown station(s): ${unknown.join(", ")}` });
+    }
+
+    if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: "User not found" });
+    const user = await User.findOneAndUpdate({ _id: req.params.id, orgId: req.org._id }, update, {
+      new: true,
+      runValidators: true,
+    }).lean();
+    if (!user) return res.status(404).json({ error: "User not found" });
+
+    // Force re-login after a password change or deactivation
+    if (password || active === false) await Session.deleteMany({ userId: user._id });
+
+    res.json(publicUser(user));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Organization onboarding (platform operators, PLATFORM_ADMIN_TOKEN)
+app.use("/api/platform", requirePlatformAdmin);
+
+app.get("/api/platform/orgs", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const orgs = await Organization.find({}).sort({ slug: 1 }).lean();
+    res.json(orgs.map(toOrgSettingsDto));
+  } catch (err) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// Creates { slug, name, logoUrl?, grades?, admin: { username, name, password } }
+// together with the organization's first admin
+app.post("/api/platform/orgs", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  let org = null;
+  try {
+    const input = readOrgInput(req.body || {});
+    const { admin } = req.body;
+    if (!admin?.username || !admin?.name || !admin?.password) {
+      return res.status(400).json({ error: "admin.username, admin.name and admin.password are required" });
+    }
+
+    org = await Organization.create(input);
+    const user = await User.create({
+      orgId: org._id,
+      username: admin.username,
+      name: admin.name,
+      passwordHash: hashPassword(String(admin.password)),
+      role: "admin",
+    });
+    res.status(201).json({ org: toOrgSettingsDto(org), admin: publicUser(user) });
+  } catch (err) {
+    if (err.code === 11000) return res.status(409).json({ error: "Organization slug already exists" });
+    // Don't leave an organization nobody can sign in to
+    if (org) await Organization.deleteOne({ _id: org._id });
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Rename, rebrand or (de)activate an organization
+app.patch("/api/platform/orgs/:slug", async (req, res) => {
+  if (!isDbReady()) return res.status(503).json({ error: "DB not connected" });
+  try {
+    const input = readOrgInput(req.body || {}, { partial: true });
+    delete input.slug;
+    if (req.body?.active !== undefined) input.active = Boolean(req.body.active);
+
+    const org = await Organization.findOneAndUpdate({ slug: String(req.params.slug).toLowerCase() }, input, {
+      new: true,
+      runValidators: true,
+    }).lean();
+    if (!org) return res.status(404).json({ error: "Organization not found" });
+
+    if (org.active) knownOrgs.set(org.slug, org);
+    else knownOrgs.delete(org.slug);
+    if (input.timeZone !== undefined) await rescheduleReports(org);
+    if (input.active === false) {
+      const users = await User.find({ orgId: org._id }).select({ _id: 1 }).lean();
+      await Session.deleteMany({ userId: { $in: users.map((u) => u._id) } });
+    }
+    res.json(toOrgSettingsDto(org));
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// ============================================================
+// 🚀 SERVER STARTUP
+// ============================================================
+async function startServer() {
+  const MONGODB_URI = process.env.MONGODB_URI;
+  if (!MONGODB_URI) {
+    console.error("❌ MONGODB_URI not set!");
+    process.exit(1);
+  }
+
+  try {
+    await mongoose.connect(MONGODB_URI, {
+      serverSelectionTimeoutMS: 5000,
+      family: 4,
+    });
+    console.log("🟢 MongoDB Connected");
+    console.log("🟢 DB Ready state: " + mongoose.connection.readyState);
+
+    const defaultOrg = await ensureDefaultOrganization();
+    await backfillOrgIds(defaultOrg);
+    await seedStations(defaultOrg);
+    await backfillStationLocations();
+    await rebucketPriceHistory();
+    await ensureBootstrapAdmin(defaultOrg);
+    startScheduler();
+    startAlertChecks();
+    startReportScheduler();
+
+    const PORT = process.env.PORT || 5000;
+    app.listen(PORT, () => console.log(`🚀 Server running on ${PORT}`));
+    console.log(`🌐 CORS origins: ${CORS_ORIGINS.join(", ")}`);
+
+  } catch (err) {
+    console.error("🔴 Failed to connect/start:", err);
+    process.exit(1);
+  }
+}
+
+// Tests require the app without connecting to MongoDB
+if (require.main === module) startServer();
+
+module.exports = { app, runScheduledChanges };
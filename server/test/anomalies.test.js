@@ -0,0 +1,51 @@
+const { describe, it, before, after, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+describe("price anomaly warnings", () => {
+  let api;
+  let org;
+  let staff;
+  let station;
+
+  before(async () => {
+    api = await h.listen();
+  });
+  after(() => api.close());
+
+  beforeEach(() => {
+    org = h.makeOrg();
+    staff = h.makeUser(org, { role: "staff", stationIds: ["1"] });
+    station = h.makeStation(org, { grades: ["regular", "premium", "diesel"] });
+
+    h.stubAuth({ orgs: [org], users: [staff] });
+    h.stub("Station", "findOne", (filter) => (filter.id === "1" ? station : null));
+    h.stub("PriceChange", "findOne");
+    h.stub("PriceHistory", "find", () => []);
+    h.stub("PriceHistory", "findOne");
+    h.stub("Delivery", "findOne");
+  });
+  afterEach(() => h.restoreStubs());
+
+  function submit(prices) {
+    return api.request("POST", "/api/update-prices", {
+      headers: h.authHeaders(staff),
+      body: { stationId: "1", prices: { diesel: "3.599", ...prices } },
+    });
+  }
+
+  it("flags premium below regular at a station without midgrade", async () => {
+    const res = await submit({ regular: "3.899", premium: "3.199" });
+    assert.equal(res.status, 409);
+    assert.deepEqual(res.body.warnings, { premium: ["premium is priced below regular"] });
+  });
+
+  it("accepts correctly ordered grades without midgrade", async () => {
+    const changes = [];
+    h.stub("PriceChange", "insertMany", (docs) => changes.push(...docs));
+    h.stub("PriceChange", "find", () => changes);
+    h.stub("PriceHistory", "findOneAndUpdate", (filter, update) => ({ ...filter, ...update.$set }));
+    const res = await submit({ regular: "3.199", premium: "3.899" });
+    assert.equal(res.status, 200);
+  });
+});
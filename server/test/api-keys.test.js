@@ -0,0 +1,133 @@
+const { describe, it, before, after, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+describe("API keys", () => {
+  let api;
+  let org;
+  let keys;
+
+  before(async () => {
+    api = await h.listen();
+  });
+  after(() => api.close());
+
+  beforeEach(() => {
+    org = h.makeOrg();
+    keys = [];
+    h.stubOrgs([org]);
+    h.stub("ApiKey", "findOne", (filter) => keys.find((k) => k.keyHash === filter.keyHash && k.active) || null);
+    h.stub("ApiKey", "updateOne");
+    h.stub("ApiRequestLog", "create");
+    h.stub("Station", "find", (filter) =>
+      [h.makeStation(org, { id: "1", name: "Main St" }), h.makeStation(org, { id: "2", name: "Oak Ave" })].filter(
+        (s) => h.sameId(s.orgId, filter.orgId)
+      )
+    );
+    h.stub("Station", "findOne", (filter) =>
+      h.sameId(filter.orgId, org._id) && ["1", "2"].includes(filter.id) ? h.makeStation(org, { id: filter.id }) : null
+    );
+    h.stub("PriceHistory", "aggregate", () => []);
+  });
+  afterEach(() => h.restoreStubs());
+
+  // Registers a key and returns the header that authenticates with it
+  function issueKey(overrides = {}) {
+    const raw = `fk_test${keys.length}_secret`;
+    keys.push({
+      _id: h.objectId(),
+      orgId: org._id,
+      name: "Pricing feed",
+      prefix: `test${keys.length}`,
+      keyHash: h.hashToken(raw),
+      scopes: ["read"],
+      stationIds: [],
+      rateLimitPerMinute: 60,
+      active: true,
+      ...overrides,
+    });
+    return { "X-API-Key": raw };
+  }
+
+  it("requires a valid key", async () => {
+    const missing = await api.request("GET", "/api/v1/stations");
+    assert.equal(missing.status, 401);
+
+    issueKey();
+    const wrong = await api.request("GET", "/api/v1/stations", { headers: { "X-API-Key": "fk_test0_guess" } });
+    assert.equal(wrong.status, 401);
+
+    const revoked = await api.request("GET", "/api/v1/stations", { headers: issueKey({ active: false }) });
+    assert.equal(revoked.status, 401);
+  });
+
+  it("rejects keys of a disabled organization", async () => {
+    const headers = issueKey();
+    org.active = false;
+    const res = await api.request("GET", "/api/v1/stations", { headers });
+    assert.equal(res.status, 401);
+  });
+
+  it("enforces scopes", async () => {
+    const readOnly = issueKey({ scopes: ["read"] });
+    const read = await api.request("GET", "/api/v1/stations", { headers: readOnly });
+    assert.equal(read.status, 200);
+
+    const write = await api.request("POST", "/api/v1/prices", {
+      headers: readOnly,
+      body: { stationId: "1", prices: { regular: 3.199 } },
+    });
+    assert.equal(write.status, 403);
+    assert.equal(write.body.error, "This key lacks the write scope");
+  });
+
+  it("limits a key to its stations", async () => {
+    const headers = issueKey({ scopes: ["read", "write"], stationIds: ["2"] });
+
+    const list = await api.request("GET", "/api/v1/stations", { headers });
+    assert.equal(list.status, 200);
+    assert.deepEqual(
+      list.body.map((s) => s.id),
+      ["2"]
+    );
+
+    const other = await api.request("GET", "/api/v1/stations/1", { headers });
+    assert.equal(other.status, 404);
+    const own = await api.request("GET", "/api/v1/stations/2", { headers });
+    assert.equal(own.status, 200);
+
+    const history = await api.request("GET", "/api/v1/price-history?stationId=1", { headers });
+    assert.equal(history.status, 404);
+
+    const write = await api.request("POST", "/api/v1/prices", {
+      headers,
+      body: { stationId: "1", prices: { regular: 3.199 } },
+    });
+    assert.equal(write.status, 403);
+    assert.equal(write.body.error, "This key cannot update this station");
+  });
+
+  it("rate limits each key per minute", async () => {
+    const limited = issueKey({ rateLimitPerMinute: 2 });
+    const other = issueKey({ rateLimitPerMinute: 2 });
+
+    const first = await api.request("GET", "/api/v1/stations", { headers: limited });
+    assert.equal(first.status, 200);
+    assert.equal(first.headers.get("x-ratelimit-limit"), "2");
+    assert.equal(first.headers.get("x-ratelimit-remaining"), "1");
+    assert.equal((await api.request("GET", "/api/v1/stations", { headers: limited })).status, 200);
+
+    const over = await api.request("GET", "/api/v1/stations", { headers: limited });
+    assert.equal(over.status, 429);
+    assert.equal(over.headers.get("x-ratelimit-remaining"), "0");
+    const retryAfter = Number(over.headers.get("retry-after"));
+    assert.ok(retryAfter > 0 && retryAfter <= 60);
+
+    // Scope checks come after the limit, so rejected calls still count
+    const write = await api.request("POST", "/api/v1/prices", { headers: limited, body: {} });
+    assert.equal(write.status, 429);
+
+    const unaffected = await api.request("GET", "/api/v1/stations", { headers: other });
+    assert.equal(unaffected.status, 200);
+  });
+});
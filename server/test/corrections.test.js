@@ -0,0 +1,251 @@
+const { describe, it, before, after, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+describe("price corrections", () => {
+  let api;
+  let org;
+  let requester;
+  let reviewer;
+  let station;
+  let snapshot;
+  let corrections;
+  let snapshotUpdates;
+
+  before(async () => {
+    api = await h.listen();
+  });
+  after(() => api.close());
+
+  // One stored day for station 1 and a PriceCorrection collection backed by an array
+  function setup(orgOverrides = {}) {
+    org = h.makeOrg(orgOverrides);
+    requester = h.makeUser(org, { name: "Ada Admin" });
+    reviewer = h.makeUser(org, { name: "Bob Admin", email: "bob@example.com" });
+    station = h.makeStation(org);
+    snapshot = {
+      _id: h.objectId(),
+      orgId: org._id,
+      stationId: "1",
+      date: "2026-10-01",
+      time: "2026-10-01T13:00:00.000Z",
+      regular: 3.199,
+      premium: 3.899,
+      diesel: 3.599,
+      flags: ["regular: changed by more than $0.50"],
+    };
+    corrections = [];
+    snapshotUpdates = [];
+
+    h.stubAuth({ orgs: [org], users: [requester, reviewer] });
+    h.stub("Station", "findOne", (filter) =>
+      h.sameId(filter.orgId, org._id) && filter.id === station.id ? station : null
+    );
+    h.stub("PriceHistory", "findOne", (filter) =>
+      filter.stationId === snapshot.stationId && filter.date === snapshot.date ? snapshot : null
+    );
+    h.stub("PriceHistory", "findByIdAndUpdate", (id, update) => {
+      snapshotUpdates.push(update.$set);
+      snapshot = { ...snapshot, ...update.$set };
+      return snapshot;
+    });
+    h.stub("PriceCorrection", "exists", (filter) =>
+      corrections.some((c) => c.stationId === filter.stationId && c.date === filter.date && c.status === filter.status)
+    );
+    h.stub("PriceCorrection", "create", (doc) => {
+      const correction = { _id: h.objectId(), createdAt: new Date(), ...doc };
+      corrections.push(correction);
+      return correction;
+    });
+    h.stub("PriceCorrection", "findOne", (filter) =>
+      corrections.find((c) => h.sameId(c._id, filter._id) && h.sameId(c.orgId, filter.orgId)) || null
+    );
+    h.stub("PriceCorrection", "findOneAndUpdate", (filter, update) => {
+      const correction = corrections.find(
+        (c) =>
+          h.sameId(c._id, filter._id) &&
+          (filter.orgId === undefined || h.sameId(c.orgId, filter.orgId)) &&
+          c.status === filter.status
+      );
+      return correction ? Object.assign(correction, update) : null;
+    });
+  }
+
+  afterEach(() => h.restoreStubs());
+
+  describe("without approval", () => {
+    beforeEach(() => setup());
+
+    it("requires a reason", async () => {
+      const res = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(requester),
+        body: { stationId: "1", date: "2026-10-01", action: "void", reason: "  " },
+      });
+      assert.equal(res.status, 422);
+      assert.equal(res.body.fieldErrors.reason, "A reason is required");
+      assert.equal(corrections.length, 0);
+      assert.equal(snapshotUpdates.length, 0);
+    });
+
+    it("rejects unknown stations and grades the station does not sell", async () => {
+      const unknown = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(requester),
+        body: { stationId: "99", date: "2026-10-01", action: "void", reason: "Wrong station" },
+      });
+      assert.equal(unknown.status, 422);
+      assert.equal(unknown.body.fieldErrors.stationId, "Unknown station");
+
+      const grade = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(requester),
+        body: { stationId: "1", date: "2026-10-01", action: "edit", prices: { midgrade: 3.5 }, reason: "Typo" },
+      });
+      assert.equal(grade.status, 422);
+      assert.equal(grade.body.fieldErrors.midgrade, "This station does not sell this grade");
+    });
+
+    it("applies an edit immediately and keeps the original price", async () => {
+      const res = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(requester),
+        body: { stationId: "1", date: "2026-10-01", action: "edit", prices: { regular: 3.299 }, reason: "Typo" },
+      });
+      assert.equal(res.status, 201);
+      assert.equal(res.body.status, "applied");
+      assert.deepEqual(res.body.original, { regular: 3.199, midgrade: null, premium: 3.899, diesel: 3.599 });
+
+      assert.equal(snapshotUpdates.length, 1);
+      const [$set] = snapshotUpdates;
+      assert.equal($set.regular, 3.299);
+      assert.deepEqual($set.original, { regular: 3.199 });
+      assert.deepEqual($set.correctedGrades, ["regular"]);
+      assert.equal($set.correctionReason, "Typo");
+      assert.deepEqual($set.flags, []);
+    });
+
+    it("voids an entry and refuses to correct it again", async () => {
+      const res = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(requester),
+        body: { stationId: "1", date: "2026-10-01", action: "void", reason: "Test entry" },
+      });
+      assert.equal(res.status, 201);
+      assert.equal(snapshotUpdates[0].voided, true);
+      assert.equal(snapshot.voided, true);
+
+      const again = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(requester),
+        body: { stationId: "1", date: "2026-10-01", action: "void", reason: "Test entry" },
+      });
+      assert.equal(again.status, 422);
+      assert.equal(again.body.fieldErrors.date, "This entry is already voided");
+    });
+
+    it("is limited to admins", async () => {
+      const staff = h.makeUser(org, { role: "staff" });
+      h.restoreStubs();
+      h.stubAuth({ orgs: [org], users: [staff] });
+
+      const res = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(staff),
+        body: { stationId: "1", date: "2026-10-01", action: "void", reason: "Test entry" },
+      });
+      assert.equal(res.status, 403);
+    });
+  });
+
+  describe("with approval required", () => {
+    beforeEach(() => setup({ requireCorrectionApproval: true }));
+
+    async function requestEdit() {
+      const res = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(requester),
+        body: { stationId: "1", date: "2026-10-01", action: "edit", prices: { diesel: 3.499 }, reason: "Pump misread" },
+      });
+      assert.equal(res.status, 201);
+      return res.body;
+    }
+
+    it("leaves the entry untouched until approved", async () => {
+      const correction = await requestEdit();
+      assert.equal(correction.status, "pending");
+      assert.equal(correction.appliedAt, null);
+      assert.equal(snapshotUpdates.length, 0);
+
+      const duplicate = await api.request("POST", "/api/admin/corrections", {
+        headers: h.authHeaders(reviewer),
+        body: { stationId: "1", date: "2026-10-01", action: "void", reason: "Duplicate" },
+      });
+      assert.equal(duplicate.status, 409);
+    });
+
+    it("does not let the requester approve their own correction", async () => {
+      const correction = await requestEdit();
+      const res = await api.request("POST", `/api/admin/corrections/${correction.id}/approve`, {
+        headers: h.authHeaders(requester),
+      });
+      assert.equal(res.status, 403);
+      assert.equal(corrections[0].status, "pending");
+      assert.equal(snapshotUpdates.length, 0);
+    });
+
+    it("applies the correction when a second admin approves it", async () => {
+      const correction = await requestEdit();
+      const res = await api.request("POST", `/api/admin/corrections/${correction.id}/approve`, {
+        headers: h.authHeaders(reviewer),
+      });
+      assert.equal(res.status, 200);
+      assert.equal(res.body.status, "applied");
+      assert.equal(res.body.reviewedBy, "Bob Admin");
+      assert.equal(snapshotUpdates.length, 1);
+      assert.equal(snapshot.diesel, 3.499);
+      assert.deepEqual(snapshot.original, { diesel: 3.599 });
+
+      const again = await api.request("POST", `/api/admin/corrections/${correction.id}/approve`, {
+        headers: h.authHeaders(reviewer),
+      });
+      assert.equal(again.status, 409);
+      assert.equal(snapshotUpdates.length, 1);
+    });
+
+    it("refuses to approve a correction once the entry has changed", async () => {
+      const correction = await requestEdit();
+      snapshot = { ...snapshot, regular: 3.249, time: "2026-10-01T15:00:00.000Z" };
+
+      const res = await api.request("POST", `/api/admin/corrections/${correction.id}/approve`, {
+        headers: h.authHeaders(reviewer),
+      });
+      assert.equal(res.status, 409);
+      assert.match(res.body.error, /entry changed/);
+      assert.equal(corrections[0].status, "pending");
+      assert.equal(snapshotUpdates.length, 0);
+    });
+
+    it("rejects a pending correction without applying it", async () => {
+      const correction = await requestEdit();
+      const res = await api.request("POST", `/api/admin/corrections/${correction.id}/reject`, {
+        headers: h.authHeaders(reviewer),
+        body: { note: "Receipt shows 3.599" },
+      });
+      assert.equal(res.status, 200);
+      assert.equal(res.body.status, "rejected");
+      assert.equal(res.body.reviewNote, "Receipt shows 3.599");
+      assert.equal(snapshotUpdates.length, 0);
+
+      const approve = await api.request("POST", `/api/admin/corrections/${correction.id}/approve`, {
+        headers: h.authHeaders(reviewer),
+      });
+      assert.equal(approve.status, 409);
+    });
+
+    it("hides corrections from other organizations", async () => {
+      const correction = await requestEdit();
+      const otherOrg = h.makeOrg({ slug: "rival" });
+      const outsider = h.makeUser(otherOrg);
+      h.stubAuth({ orgs: [org, otherOrg], users: [requester, reviewer, outsider] });
+
+      const res = await api.request("POST", `/api/admin/corrections/${correction.id}/approve`, {
+        headers: h.authHeaders(outsider),
+      });
+      assert.equal(res.status, 404);
+      assert.equal(corrections[0].status, "pending");
+    });
+  });
+});
@@ -0,0 +1,34 @@
+const { describe, it, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+// Runs without CORS_ORIGINS, as a fresh deploy would
+describe("CORS", () => {
+  let api;
+
+  before(async () => {
+    api = await h.listen();
+  });
+  after(() => api.close());
+
+  function preflight(origin) {
+    return api.request("OPTIONS", "/api/stations", {
+      headers: { Origin: origin, "Access-Control-Request-Method": "GET" },
+    });
+  }
+
+  it("allows the shipped client and its tenant subdomains by default", async () => {
+    for (const origin of ["https://fuelify.app", "https://acme.fuelify.app"]) {
+      const res = await preflight(origin);
+      assert.equal(res.status, 204);
+      assert.equal(res.headers.get("access-control-allow-origin"), origin);
+    }
+  });
+
+  it("sends no CORS headers to other origins", async () => {
+    for (const origin of ["https://evil.example", "https://fuelify.app.evil.example", "https://a.b.fuelify.app"]) {
+      const res = await preflight(origin);
+      assert.equal(res.headers.get("access-control-allow-origin"), null);
+    }
+  });
+});
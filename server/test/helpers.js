@@ -0,0 +1,147 @@
+// Route test harness: runs the Express app on an ephemeral port with the
+// Mongoose models stubbed per test, so the suite needs no MongoDB.
+const crypto = require("node:crypto");
+const { once } = require("node:events");
+const mongoose = require("mongoose");
+const { app } = require("../index");
+
+// isDbReady() guards most routes; every model call a test reaches is stubbed
+let dbReady = true;
+Object.defineProperty(mongoose.connection, "readyState", { get: () => (dbReady ? 1 : 0), configurable: true });
+
+function setDbReady(ready) {
+  dbReady = ready;
+}
+
+const originals = [];
+
+// Stand-in for a Mongoose query: awaitable, and chainable through the query
+// helpers the routes use
+function query(run) {
+  const q = {
+    exec: async () => run(),
+    then: (resolve, reject) => q.exec().then(resolve, reject),
+    catch: (reject) => q.exec().catch(reject),
+  };
+  for (const helper of ["lean", "sort", "select", "limit", "skip", "populate"]) q[helper] = () => q;
+  return q;
+}
+
+// Replaces Model[method] until restoreStubs(); returns the recorded argument lists
+function stub(modelName, method, impl = () => null) {
+  const model = mongoose.model(modelName);
+  const calls = [];
+  originals.push([model, method, model[method]]);
+  model[method] = (...args) => {
+    calls.push(args);
+    return query(() => impl(...args));
+  };
+  return calls;
+}
+
+function restoreStubs() {
+  while (originals.length) {
+    const [model, method, original] = originals.pop();
+    model[method] = original;
+  }
+}
+
+function objectId() {
+  return new mongoose.Types.ObjectId();
+}
+
+function makeOrg(overrides = {}) {
+  return { _id: objectId(), slug: "acme", name: "Acme Fuel", active: true, timeZone: "America/Chicago", ...overrides };
+}
+
+function makeUser(org, overrides = {}) {
+  return { _id: objectId(), orgId: org._id, name: "Ada Admin", email: "ada@example.com", role: "admin", active: true, ...overrides };
+}
+
+function makeStation(org, overrides = {}) {
+  return {
+    _id: objectId(),
+    orgId: org._id,
+    id: "1",
+    name: "Main St",
+    grades: ["regular", "premium", "diesel"],
+    timeZone: "America/Chicago",
+    active: true,
+    ...overrides,
+  };
+}
+
+function hashToken(token) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function sameId(a, b) {
+  return a != null && b != null && String(a) === String(b);
+}
+
+// Serves sessions for the given users; sign in with authHeaders(user)
+function stubAuth({ orgs, users }) {
+  stub("Session", "findOne", (filter) => {
+    const user = users.find((u) => hashToken(`token-${u._id}`) === filter.tokenHash);
+    return user ? { userId: user._id } : null;
+  });
+  stub("User", "findById", (id) => users.find((u) => sameId(u._id, id)) || null);
+  stubOrgs(orgs);
+}
+
+function stubOrgs(orgs) {
+  return stub(
+    "Organization",
+    "findOne",
+    (filter) =>
+      orgs.find(
+        (o) =>
+          (filter.active === undefined || o.active === filter.active) &&
+          (filter._id === undefined || sameId(o._id, filter._id)) &&
+          (filter.slug === undefined || o.slug === filter.slug)
+      ) || null
+  );
+}
+
+function authHeaders(user) {
+  return { Authorization: `Bearer token-${user._id}` };
+}
+
+async function listen() {
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const base = `http://127.0.0.1:${server.address().port}`;
+
+  async function request(method, path, { headers = {}, body } = {}) {
+    const res = await fetch(`${base}${path}`, {
+      method,
+      headers: body === undefined ? headers : { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    return { status: res.status, headers: res.headers, body: text ? JSON.parse(text) : null };
+  }
+
+  function close() {
+    server.closeAllConnections();
+    return new Promise((resolve) => server.close(resolve));
+  }
+
+  return { request, close };
+}
+
+module.exports = {
+  setDbReady,
+  stub,
+  restoreStubs,
+  objectId,
+  makeOrg,
+  makeUser,
+  makeStation,
+  hashToken,
+  sameId,
+  stubAuth,
+  stubOrgs,
+  authHeaders,
+  listen,
+};
@@ -0,0 +1,107 @@
+const { describe, it, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+// The latest-price cache is module state, so these tests run as one sequence
+// against a single store: build, refresh on write, then serve it stale.
+describe("latest price cache", () => {
+  let api;
+  let org;
+  let admin;
+  let history;
+  let rebuilds;
+
+  // Snapshot filters use plain values and { $ne } only
+  function matches(doc, filter) {
+    return Object.entries(filter).every(([field, value]) =>
+      value && typeof value === "object" && "$ne" in value ? (doc[field] ?? null) !== value.$ne : doc[field] === value
+    );
+  }
+
+  function newestFirst(a, b) {
+    return b.date.localeCompare(a.date) || b.time.localeCompare(a.time);
+  }
+
+  // What the $group stage yields: each station's newest entry and newest price per grade
+  function aggregateLatest() {
+    const live = history.filter((doc) => !doc.voided).sort(newestFirst);
+    const stationIds = [...new Set(live.map((doc) => doc.stationId))];
+    return stationIds.map((stationId) => {
+      const docs = live.filter((doc) => doc.stationId === stationId);
+      const row = { _id: stationId, lastUpdated: docs[0].time, updatedAt: docs[0].updatedAt };
+      for (const grade of ["regular", "midgrade", "premium", "diesel"]) {
+        const doc = docs.find((d) => typeof d[grade] === "number");
+        row[grade] = doc ? { date: doc.date, time: doc.time, price: doc[grade] } : null;
+      }
+      return row;
+    });
+  }
+
+  function entry(date, regular) {
+    const time = `${date}T13:00:00.000Z`;
+    return { _id: h.objectId(), orgId: org._id, stationId: "1", date, time, updatedAt: new Date(time), regular };
+  }
+
+  async function fetchStation() {
+    const res = await api.request("GET", "/api/stations?org=acme");
+    assert.equal(res.status, 200);
+    return res.body[0];
+  }
+
+  before(async () => {
+    api = await h.listen();
+    org = h.makeOrg();
+    admin = h.makeUser(org);
+    history = [entry("2026-10-01", 3.099), entry("2026-10-02", 3.199)];
+    rebuilds = h.stub("PriceHistory", "aggregate", aggregateLatest);
+
+    h.stubAuth({ orgs: [org], users: [admin] });
+    h.stub("Station", "find", () => [h.makeStation(org)]);
+    h.stub("Station", "findOne", (filter) => (filter.id === "1" ? h.makeStation(org) : null));
+    h.stub(
+      "PriceHistory",
+      "findOne",
+      (filter) => history.filter((doc) => matches(doc, filter)).sort(newestFirst)[0] || null
+    );
+    h.stub("PriceHistory", "findByIdAndUpdate", (id, update) => {
+      const doc = history.find((d) => h.sameId(d._id, id));
+      return Object.assign(doc, update.$set);
+    });
+    h.stub("PriceCorrection", "exists", () => false);
+    h.stub("PriceCorrection", "create", (doc) => ({ _id: h.objectId(), ...doc }));
+  });
+
+  after(() => {
+    h.setDbReady(true);
+    h.restoreStubs();
+    return api.close();
+  });
+
+  it("builds the cache once and serves later reads from it", async () => {
+    const station = await fetchStation();
+    assert.equal(station.prices.regular, 3.199);
+    assert.equal(station.lastUpdated, "2026-10-02T13:00:00.000Z");
+    await fetchStation();
+    assert.equal(rebuilds.length, 1);
+  });
+
+  it("refreshes only the corrected station after a write", async () => {
+    const res = await api.request("POST", "/api/admin/corrections", {
+      headers: h.authHeaders(admin),
+      body: { stationId: "1", date: "2026-10-02", action: "void", reason: "Test entry" },
+    });
+    assert.equal(res.status, 201);
+
+    const station = await fetchStation();
+    assert.equal(station.prices.regular, 3.099);
+    assert.equal(station.lastUpdated, "2026-10-01T13:00:00.000Z");
+    assert.equal(rebuilds.length, 1);
+  });
+
+  it("serves the last known prices marked stale while MongoDB is down", async () => {
+    h.setDbReady(false);
+    const station = await fetchStation();
+    assert.equal(station.stale, true);
+    assert.equal(station.prices.regular, 3.099);
+  });
+});
@@ -0,0 +1,72 @@
+const { describe, it, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+const { runScheduledChanges } = require("../index");
+
+describe("scheduled price changes", () => {
+  let org;
+  let change;
+  let updates;
+  let failingStations;
+
+  beforeEach(() => {
+    org = h.makeOrg();
+    change = {
+      _id: h.objectId(),
+      orgId: org._id,
+      effectiveAt: new Date(Date.now() - 60 * 1000),
+      stationIds: ["1", "2", "3"],
+      regular: 3.299,
+      status: "pending",
+      flags: {},
+      createdBy: "Ada Admin",
+      createdByUserId: h.objectId(),
+    };
+    updates = [];
+    failingStations = [];
+    const changes = [];
+
+    h.stub("ScheduledPriceChange", "find", () => [change]);
+    h.stub("ScheduledPriceChange", "findOneAndUpdate", (filter, update) => ({ ...change, ...update }));
+    h.stub("ScheduledPriceChange", "updateOne", (filter, update) => updates.push(update));
+    h.stub("Station", "findOne", (filter) => h.makeStation(org, { id: filter.id }));
+    h.stub("PriceHistory", "findOne");
+    h.stub("PriceHistory", "findOneAndUpdate", (filter, update) => ({ ...filter, ...update.$set }));
+    h.stub("PriceChange", "insertMany", (docs) => {
+      if (failingStations.includes(docs[0].stationId)) throw new Error("write conflict");
+      changes.push(...docs);
+    });
+    h.stub("PriceChange", "find", (filter) => changes.filter((c) => c.stationId === filter.stationId));
+  });
+  afterEach(() => h.restoreStubs());
+
+  function appliedStations() {
+    return updates.filter((u) => u.$push).map((u) => u.$push.appliedStationIds);
+  }
+
+  it("marks a change applied when every station is written", async () => {
+    await runScheduledChanges();
+    assert.deepEqual(appliedStations(), ["1", "2", "3"]);
+    const result = updates.at(-1);
+    assert.equal(result.status, "applied");
+    assert.deepEqual(result.failedStationIds, []);
+    assert.equal(result.error, null);
+  });
+
+  it("records which stations failed and keeps applying the rest", async () => {
+    failingStations = ["2"];
+    await runScheduledChanges();
+    assert.deepEqual(appliedStations(), ["1", "3"]);
+    const result = updates.at(-1);
+    assert.equal(result.status, "partial");
+    assert.deepEqual(result.failedStationIds, ["2"]);
+    assert.equal(result.error, "2: write conflict");
+  });
+
+  it("marks a change failed when no station could be written", async () => {
+    failingStations = ["1", "2", "3"];
+    await runScheduledChanges();
+    assert.deepEqual(appliedStations(), []);
+    assert.equal(updates.at(-1).status, "failed");
+  });
+});
@@ -0,0 +1,67 @@
+const { describe, it, before, after, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+describe("station management", () => {
+  let api;
+  let org;
+  let admin;
+  let storedIds;
+
+  before(async () => {
+    api = await h.listen();
+  });
+  after(() => api.close());
+
+  beforeEach(() => {
+    org = h.makeOrg({ grades: ["regular", "premium", "diesel"] });
+    admin = h.makeUser(org);
+    storedIds = ["1", "2"];
+
+    h.stubAuth({ orgs: [org], users: [admin] });
+    h.stub("Station", "distinct", () => [...storedIds]);
+    h.stub("Station", "find", () => []);
+    h.stub("Competitor", "find", () => []);
+  });
+  afterEach(() => h.restoreStubs());
+
+  function createStation() {
+    return api.request("POST", "/api/admin/stations", {
+      headers: h.authHeaders(admin),
+      body: { name: "Elm St", address: "1 Elm St", lat: 30.1, lng: -95.4 },
+    });
+  }
+
+  it("takes the next id after a concurrent create claimed it", async () => {
+    const attempts = h.stub("Station", "create", (doc) => {
+      if (storedIds.includes(doc.id)) {
+        throw Object.assign(new Error("E11000 duplicate key error"), { code: 11000, keyPattern: { id: 1 } });
+      }
+      storedIds.push(doc.id);
+      return doc;
+    });
+    // Another admin's create lands between reading the ids and inserting
+    h.stub("Station", "distinct", () => {
+      const ids = [...storedIds];
+      if (!storedIds.includes("3")) storedIds.push("3");
+      return ids;
+    });
+
+    const res = await createStation();
+    assert.equal(res.status, 201);
+    assert.equal(res.body.id, "4");
+    assert.deepEqual(
+      attempts.map(([doc]) => doc.id),
+      ["3", "4"]
+    );
+  });
+
+  it("does not retry other duplicate keys", async () => {
+    const attempts = h.stub("Station", "create", () => {
+      throw Object.assign(new Error("E11000 duplicate key error"), { code: 11000, keyPattern: { name: 1 } });
+    });
+    const res = await createStation();
+    assert.equal(res.status, 400);
+    assert.equal(attempts.length, 1);
+  });
+});
@@ -0,0 +1,127 @@
+const { describe, it, before, after, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Replays from the offline queue: capture times and idempotent submission ids
+describe("price submissions", () => {
+  let api;
+  let org;
+  let staff;
+  let changes;
+  let inserts;
+
+  before(async () => {
+    api = await h.listen();
+  });
+  after(() => api.close());
+
+  beforeEach(() => {
+    org = h.makeOrg();
+    staff = h.makeUser(org, { name: "Sam Staff", role: "staff", stationIds: ["1"] });
+    changes = [];
+
+    h.stubAuth({ orgs: [org], users: [staff] });
+    h.stub("Station", "findOne", (filter) =>
+      filter.id === "1" && (filter.orgId === undefined || h.sameId(filter.orgId, org._id)) ? h.makeStation(org) : null
+    );
+    h.stub(
+      "PriceChange",
+      "findOne",
+      (filter) =>
+        changes.find(
+          (c) =>
+            h.sameId(c.orgId, filter.orgId) && c.stationId === filter.stationId && c.submissionId === filter.submissionId
+        ) || null
+    );
+    inserts = h.stub("PriceChange", "insertMany", (docs) => {
+      changes.push(...docs);
+      return docs;
+    });
+    h.stub("PriceChange", "find", (filter) =>
+      changes.filter((c) => c.stationId === filter.stationId && c.date === filter.date)
+    );
+    h.stub("PriceHistory", "find", () => []);
+    h.stub("PriceHistory", "findOne");
+    h.stub("PriceHistory", "findOneAndUpdate", (filter, update) => ({ ...filter, ...update.$set }));
+    h.stub("Delivery", "findOne");
+  });
+  afterEach(() => h.restoreStubs());
+
+  function submit(body) {
+    return api.request("POST", "/api/update-prices", {
+      headers: h.authHeaders(staff),
+      body: { stationId: "1", prices: { regular: "3.199", premium: "3.899", diesel: "3.599" }, ...body },
+    });
+  }
+
+  it("records prices at their capture time", async () => {
+    const capturedAt = new Date(Date.now() - 30 * HOUR_MS);
+    const res = await submit({ submissionId: "queued-0001", capturedAt: capturedAt.toISOString() });
+    assert.equal(res.status, 200);
+
+    const localDay = new Intl.DateTimeFormat("en-CA", { timeZone: "America/Chicago" }).format(capturedAt);
+    assert.equal(res.body.dateKey, localDay);
+    assert.equal(changes.length, 3);
+    for (const change of changes) {
+      assert.equal(change.changedAt.getTime(), capturedAt.getTime());
+      assert.ok(change.receivedAt > change.changedAt);
+      assert.equal(change.submissionId, "queued-0001");
+    }
+  });
+
+  it("acknowledges a replayed submission without recording it twice", async () => {
+    assert.equal((await submit({ submissionId: "queued-0002" })).status, 200);
+
+    const replay = await submit({ submissionId: "queued-0002" });
+    assert.equal(replay.status, 200);
+    assert.equal(replay.body.duplicate, true);
+    assert.equal(inserts.length, 1);
+  });
+
+  it("records a submission whose id was already used at another station", async () => {
+    staff.stationIds.push("2");
+    h.stub("Station", "findOne", (filter) =>
+      ["1", "2"].includes(filter.id) && (filter.orgId === undefined || h.sameId(filter.orgId, org._id))
+        ? h.makeStation(org, { id: filter.id })
+        : null
+    );
+    assert.equal((await submit({ stationId: "2", submissionId: "queued-0004" })).status, 200);
+
+    const res = await submit({ submissionId: "queued-0004" });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.duplicate, undefined);
+    assert.equal(inserts.length, 2);
+    assert.deepEqual([...new Set(changes.map((c) => c.stationId))], ["2", "1"]);
+  });
+
+  it("treats a duplicate key from a concurrent replay as already recorded", async () => {
+    h.stub("PriceChange", "insertMany", () => {
+      throw Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+    });
+    const res = await submit({ submissionId: "queued-0003" });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.duplicate, true);
+  });
+
+  it("rejects malformed submission ids and implausible capture times", async () => {
+    const badId = await submit({ submissionId: "short" });
+    assert.equal(badId.status, 400);
+
+    const future = await submit({ capturedAt: new Date(Date.now() + HOUR_MS).toISOString() });
+    assert.equal(future.status, 422);
+    assert.equal(future.body.fieldErrors.capturedAt, "capturedAt is in the future");
+
+    const stale = await submit({ capturedAt: new Date(Date.now() - 8 * 24 * HOUR_MS).toISOString() });
+    assert.equal(stale.status, 422);
+    assert.equal(stale.body.fieldErrors.capturedAt, "capturedAt is more than 7 days old");
+
+    assert.equal(changes.length, 0);
+  });
+
+  it("refuses stations the staff member is not assigned to", async () => {
+    const res = await submit({ stationId: "2" });
+    assert.equal(res.status, 403);
+  });
+});
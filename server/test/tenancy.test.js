@@ -0,0 +1,119 @@
+const { describe, it, before, after, beforeEach, afterEach } = require("node:test");
+const assert = require("node:assert/strict");
+const h = require("./helpers");
+
+describe("tenant isolation", () => {
+  let api;
+  let acme;
+  let rival;
+  let admin;
+  let stations;
+  let stationUpdates;
+
+  before(async () => {
+    api = await h.listen();
+  });
+  after(() => api.close());
+
+  // Station documents are matched on their orgId as MongoDB would, so a route
+  // that forgets to scope its query sees the other organization's data
+  function matches(doc, filter) {
+    return Object.entries(filter).every(([field, value]) =>
+      field === "orgId" ? h.sameId(doc.orgId, value) : doc[field] === value
+    );
+  }
+
+  beforeEach(() => {
+    acme = h.makeOrg({ slug: "acme" });
+    rival = h.makeOrg({ slug: "rival", name: "Rival Fuel" });
+    admin = h.makeUser(acme);
+    stations = [
+      h.makeStation(acme, { id: "1", name: "Acme Main St" }),
+      h.makeStation(rival, { id: "2", name: "Rival Oak Ave" }),
+    ];
+    stationUpdates = [];
+
+    h.stubAuth({ orgs: [acme, rival], users: [admin] });
+    h.stub("Station", "find", (filter) => stations.filter((s) => matches(s, filter)));
+    h.stub("Station", "findOne", (filter) => stations.find((s) => matches(s, filter)) || null);
+    h.stub("Station", "findOneAndUpdate", (filter, update) => {
+      const station = stations.find((s) => matches(s, filter));
+      if (!station) return null;
+      stationUpdates.push(update);
+      return { ...station, ...update };
+    });
+    h.stub("PriceHistory", "aggregate", () => []);
+  });
+  afterEach(() => h.restoreStubs());
+
+  it("refuses a session for a different organization", async () => {
+    const byHeader = await api.request("GET", "/api/admin/stations", {
+      headers: { ...h.authHeaders(admin), "X-Org": "rival" },
+    });
+    assert.equal(byHeader.status, 403);
+
+    const byQuery = await api.request("GET", "/api/admin/stations?org=rival", { headers: h.authHeaders(admin) });
+    assert.equal(byQuery.status, 403);
+
+    const own = await api.request("GET", "/api/admin/stations", {
+      headers: { ...h.authHeaders(admin), "X-Org": "acme" },
+    });
+    assert.equal(own.status, 200);
+  });
+
+  it("lists only the signed-in organization's stations", async () => {
+    const res = await api.request("GET", "/api/admin/stations", { headers: h.authHeaders(admin) });
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      res.body.map((s) => s.name),
+      ["Acme Main St"]
+    );
+  });
+
+  it("serves public station lists per organization", async () => {
+    const own = await api.request("GET", "/api/stations?org=acme");
+    assert.deepEqual(
+      own.body.map((s) => s.id),
+      ["1"]
+    );
+
+    const other = await api.request("GET", "/api/stations", { headers: { "X-Org": "rival" } });
+    assert.deepEqual(
+      other.body.map((s) => s.id),
+      ["2"]
+    );
+
+    const unknown = await api.request("GET", "/api/stations?org=nobody");
+    assert.equal(unknown.status, 404);
+  });
+
+  it("keys shared caches of the public feed on the organization", async () => {
+    const res = await api.request("GET", "/api/feed/v1/prices.json", { headers: { "X-Org": "rival" } });
+    assert.equal(res.status, 200);
+    assert.deepEqual(
+      res.body.stations.map((s) => s.id),
+      ["2"]
+    );
+    assert.match(res.headers.get("cache-control"), /^public/);
+    const vary = res.headers.get("vary").split(/,\s*/);
+    assert.ok(vary.includes("X-Org") && vary.includes("Host"), `Vary: ${vary}`);
+  });
+
+  it("does not edit another organization's station", async () => {
+    const res = await api.request("PATCH", "/api/admin/stations/2", {
+      headers: h.authHeaders(admin),
+      body: { name: "Taken over" },
+    });
+    assert.equal(res.status, 404);
+    assert.equal(stationUpdates.length, 0);
+  });
+
+  it("does not accept prices for another organization's station", async () => {
+    const res = await api.request("POST", "/api/update-price", {
+      headers: h.authHeaders(admin),
+      body: { stationId: "2", fuelType: "regular", price: 3.199 },
+    });
+    assert.equal(res.status, 422);
+    assert.equal(res.body.fieldErrors.stationId, "Unknown station");
+  });
+});